@@ -1,8 +1,18 @@
 import { LIMITS, THRESHOLDS } from './constants.js';
 import { applyDefaults, type EnrichOptions, enrich } from './enrich.js';
-import { type ComputeStatsOptions, computeStats } from './stats.js';
-import type { AnalyzeOptions, Logger, MultiTableSchema, StatsMultiTableSchema } from './types.js';
+import { type CompletionProvider, createAnthropicProvider } from './providers.js';
+import { type ComputeStatsOptions, computeStats, readStreamStats } from './stats.js';
+import type { StreamSource } from './stream.js';
+import type {
+    AnalysisResult,
+    AnalyzeOptions,
+    Logger,
+    MultiTableSchema,
+    StatsMultiTableSchema,
+    StreamAnalysisResult,
+} from './types.js';
 import { AIEnrichmentError, consoleLogger } from './types.js';
+import { BudgetExceededError, createUsageTracker, type UsageTracker } from './usage.js';
 import { countTotalFields } from './utils.js';
 
 export class LimitExceededError extends Error {
@@ -39,74 +49,127 @@ function validateSchemaLimits(stats: StatsMultiTableSchema, logger: Logger): voi
 
     if (fieldCount > LIMITS.maxFieldsWarningThreshold) {
         logger.warn(
-            `Large schema (${fieldCount} fields) - AI enrichment may be incomplete for some fields`
+            `Large schema (${fieldCount} fields) - field enrichment will run in several batches`
         );
     }
 
     logger.debug(`Validated limits: ${tableCount} tables, ${fieldCount} fields`);
 }
 
-function shouldPerformAIEnrichment(skipAI: boolean, apiKey: string): boolean {
-    return !skipAI && Boolean(apiKey);
+function validateConcurrency(concurrency: number | undefined): void {
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+        throw new RangeError(`concurrency must be a positive integer, got ${concurrency}`);
+    }
 }
 
-export async function analyze(data: unknown, options: AnalyzeOptions): Promise<MultiTableSchema> {
+function resolveProvider(
+    provider: CompletionProvider | undefined,
+    apiKey: string | undefined
+): CompletionProvider | undefined {
+    if (provider) {
+        return provider;
+    }
+
+    return apiKey ? createAnthropicProvider({ apiKey }) : undefined;
+}
+
+function buildStatsOptions(options: AnalyzeOptions): ComputeStatsOptions {
     const {
-        apiKey,
         maxRows = LIMITS.maxRowsToSample,
         maxDepth,
-        skipAI = false,
-        model,
-        logger = consoleLogger,
-        timeout,
+        signal,
+        onProgress,
         formatThreshold = THRESHOLDS.formatDetection,
         mixedTypeThreshold = THRESHOLDS.mixedType,
+        enumThreshold = THRESHOLDS.enumCardinality,
     } = options;
 
-    logger.info('Starting schema analysis...');
-    logger.debug('Computing statistics...');
-
-    const statsOptions: ComputeStatsOptions = {
+    return {
         maxRows,
         formatThreshold,
         mixedTypeThreshold,
+        enumThreshold,
         ...(maxDepth !== undefined && { maxDepth }),
+        ...(signal && { signal }),
+        ...(onProgress && { onProgress }),
     };
+}
+
+function buildEnrichOptions(
+    options: AnalyzeOptions,
+    logger: Logger,
+    usage: UsageTracker
+): EnrichOptions {
+    const { cache, previousSchema, model, timeout, concurrency, retry, signal, onProgress } =
+        options;
+
+    return {
+        logger,
+        ...(model !== undefined && { model }),
+        ...(timeout !== undefined && { timeout }),
+        ...(concurrency !== undefined && { concurrency }),
+        ...(retry && { retry }),
+        ...(cache && { cache }),
+        ...(previousSchema && { previousSchema }),
+        ...(signal && { signal }),
+        ...(onProgress && { onProgress }),
+        usage,
+    };
+}
 
-    const stats = computeStats(data, statsOptions);
+async function analyzeStats(
+    stats: StatsMultiTableSchema,
+    options: AnalyzeOptions
+): Promise<AnalysisResult> {
+    const {
+        apiKey,
+        provider,
+        skipAI = false,
+        logger = consoleLogger,
+        budget,
+        prices,
+        signal,
+    } = options;
+    const usage = createUsageTracker({
+        ...(budget && { budget }),
+        ...(prices && { prices }),
+    });
 
     const { tableCount, fieldCount } = getSchemaMetrics(stats);
     logger.info(`Found ${tableCount} tables with ${fieldCount} total fields`);
 
-    const performAIEnrichment = shouldPerformAIEnrichment(skipAI, apiKey);
+    const completionProvider = skipAI ? undefined : resolveProvider(provider, apiKey);
 
-    if (performAIEnrichment) {
+    if (completionProvider) {
         validateSchemaLimits(stats, logger);
     }
 
-    if (!performAIEnrichment) {
+    if (!completionProvider) {
         logger.info('Skipping AI enrichment, applying defaults');
-        return applyDefaults(stats);
+        return { schema: applyDefaults(stats), metadata: usage.snapshot() };
     }
 
     logger.info('Starting AI enrichment...');
 
     try {
-        const enrichOptions: EnrichOptions = {
-            logger,
-            ...(model !== undefined && { model }),
-            ...(timeout !== undefined && { timeout }),
-        };
-
-        const result = await enrich(stats, apiKey, enrichOptions);
+        const schema = await enrich(
+            stats,
+            completionProvider,
+            buildEnrichOptions(options, logger, usage)
+        );
 
         logger.info('Schema analysis complete');
-        return result;
+        return { schema, metadata: usage.snapshot() };
     } catch (error) {
-        if (error instanceof AIEnrichmentError) {
+        if (error instanceof AIEnrichmentError || error instanceof BudgetExceededError) {
             throw error;
         }
 
+        // A cancelled run has no partial result worth returning.
+        if (signal?.aborted) {
+            throw signal.reason;
+        }
+
         const partialSchema = applyDefaults(stats);
         const errorMessage = error instanceof Error ? error.message : 'AI enrichment failed';
 
@@ -121,3 +184,50 @@ export async function analyze(data: unknown, options: AnalyzeOptions): Promise<M
         throw enrichmentError;
     }
 }
+
+/**
+ * Like `analyze`, but also returns token usage, timing and estimated cost per
+ * enrichment stage.
+ */
+export async function analyzeWithMetadata(
+    data: unknown,
+    options: AnalyzeOptions
+): Promise<AnalysisResult> {
+    const { logger = consoleLogger } = options;
+
+    validateConcurrency(options.concurrency);
+    logger.info('Starting schema analysis...');
+    logger.debug('Computing statistics...');
+
+    return analyzeStats(computeStats(data, buildStatsOptions(options)), options);
+}
+
+/**
+ * Like `analyzeWithMetadata`, for NDJSON files, streams and async iterables
+ * too large to hold in memory. Rows form a single `root` table sampled down
+ * to `maxRows`; the result also counts every row read.
+ */
+export async function analyzeStream(
+    source: StreamSource,
+    options: AnalyzeOptions
+): Promise<StreamAnalysisResult> {
+    const { logger = consoleLogger } = options;
+
+    validateConcurrency(options.concurrency);
+    logger.info('Starting streamed schema analysis...');
+    logger.debug('Reading rows...');
+
+    const { stats, rowCount, sampledRowCount } = await readStreamStats(
+        source,
+        buildStatsOptions(options)
+    );
+    logger.info(`Read ${rowCount} rows, sampled ${sampledRowCount}`);
+
+    const result = await analyzeStats(stats, options);
+    return { ...result, rowCount, sampledRowCount };
+}
+
+export async function analyze(data: unknown, options: AnalyzeOptions): Promise<MultiTableSchema> {
+    const { schema } = await analyzeWithMetadata(data, options);
+    return schema;
+}
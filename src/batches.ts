@@ -0,0 +1,70 @@
+import { AI_CONFIG, LIMITS } from './constants.js';
+import type { TableContext } from './prompts.js';
+import type { StatsField, StatsMultiTableSchema, StatsTableSchema } from './types.js';
+
+export interface FieldBatchLimits {
+    readonly maxFields: number;
+    readonly maxTables: number;
+}
+
+function chunk<T>(items: readonly T[], size: number): T[][] {
+    const chunks: T[][] = [];
+
+    for (let start = 0; start < items.length; start += size) {
+        chunks.push(items.slice(start, start + size));
+    }
+
+    return chunks;
+}
+
+/**
+ * Packs tables into batches of at most `maxFields` fields and `maxTables`
+ * tables. Tables wider than `maxFields` are split across batches; each part
+ * keeps the table name and key so responses merge back by table.
+ */
+export function splitFieldBatches(
+    stats: StatsMultiTableSchema,
+    limits: FieldBatchLimits = AI_CONFIG.fieldBatch
+): StatsMultiTableSchema[] {
+    const batches: StatsMultiTableSchema[] = [];
+    let current: Record<string, StatsTableSchema> = {};
+    let currentFieldCount = 0;
+
+    const flush = (): void => {
+        if (currentFieldCount > 0) {
+            batches.push({ tables: current });
+        }
+        current = {};
+        currentFieldCount = 0;
+    };
+
+    for (const [tableName, table] of Object.entries(stats.tables)) {
+        for (const fields of chunk<StatsField>(table.fields, limits.maxFields)) {
+            const tableCount = Object.keys(current).length;
+
+            if (
+                currentFieldCount + fields.length > limits.maxFields ||
+                tableCount >= limits.maxTables ||
+                tableName in current
+            ) {
+                flush();
+            }
+
+            current[tableName] = { ...table, fields };
+            currentFieldCount += fields.length;
+        }
+    }
+
+    flush();
+
+    return batches;
+}
+
+export function buildTableContext(stats: StatsMultiTableSchema): TableContext[] {
+    return Object.entries(stats.tables).map(([tableName, table]) => ({
+        table: tableName,
+        primaryKey: table.primaryKey ?? null,
+        fieldCount: table.fields.length,
+        paths: table.fields.slice(0, LIMITS.maxContextPathsPerTable).map((field) => field.path),
+    }));
+}
@@ -0,0 +1,125 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { StatsMultiTableSchema } from './types.js';
+
+/**
+ * Stores raw enrichment stage results. Values are the JSON text returned by a
+ * stage; they are validated again when read.
+ */
+export interface EnrichmentCache {
+    get(key: string): Promise<string | undefined>;
+    set(key: string, value: string): Promise<void>;
+}
+
+export interface MemoryCacheOptions {
+    readonly maxEntries?: number;
+}
+
+export interface FileCacheOptions {
+    readonly directory: string;
+}
+
+const DEFAULT_MAX_MEMORY_ENTRIES = 100;
+
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.entries(value)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([keyA], [keyB]) => (keyA < keyB ? -1 : keyA > keyB ? 1 : 0))
+            .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+        return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value) ?? 'null';
+}
+
+/** SHA-256 of a key-order-independent serialization. */
+export function stableHash(value: unknown): string {
+    return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+/**
+ * Reduces stats to their shape: paths, types, formats, keys and discovered
+ * relationships. Examples and profiles are left out so a feed whose values
+ * change but whose structure does not keeps the same fingerprint.
+ */
+export function fingerprintStats(stats: StatsMultiTableSchema): string {
+    const tables = Object.entries(stats.tables).map(([tableName, table]) => ({
+        table: tableName,
+        primaryKey: table.primaryKey,
+        fields: table.fields.map((field) => ({
+            path: field.path,
+            type: field.type,
+            nullable: field.nullable,
+            format: field.format,
+            itemType: field.itemType,
+            mixedTypes: field.mixedTypes,
+            enumValues: field.enumValues?.map((entry) => entry.value),
+        })),
+    }));
+
+    const relationships = (stats.relationships ?? []).map((relationship) => ({
+        from: relationship.from,
+        to: relationship.to,
+        type: relationship.type,
+    }));
+
+    return stableHash({ tables, relationships });
+}
+
+export function createMemoryCache(options: MemoryCacheOptions = {}): EnrichmentCache {
+    const maxEntries = options.maxEntries ?? DEFAULT_MAX_MEMORY_ENTRIES;
+    const entries = new Map<string, string>();
+
+    return {
+        async get(key) {
+            const value = entries.get(key);
+
+            if (value !== undefined) {
+                entries.delete(key);
+                entries.set(key, value);
+            }
+
+            return value;
+        },
+        async set(key, value) {
+            entries.delete(key);
+            entries.set(key, value);
+
+            while (entries.size > maxEntries) {
+                const oldest = entries.keys().next().value;
+                if (oldest === undefined) {
+                    break;
+                }
+                entries.delete(oldest);
+            }
+        },
+    };
+}
+
+/** One `<key>.json` file per entry. Survives restarts; never evicts. */
+export function createFileCache(options: FileCacheOptions): EnrichmentCache {
+    const { directory } = options;
+
+    return {
+        async get(key) {
+            try {
+                return await readFile(join(directory, `${key}.json`), 'utf-8');
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return undefined;
+                }
+                throw error;
+            }
+        },
+        async set(key, value) {
+            await mkdir(directory, { recursive: true });
+            await writeFile(join(directory, `${key}.json`), value);
+        },
+    };
+}
@@ -0,0 +1,400 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { analyze, analyzeStream, LimitExceededError } from './analyze.js';
+import { createFileCache } from './cache.js';
+import { isValidDelimiter, readCsvFiles } from './csv.js';
+import { renderDataDictionary } from './dictionary.js';
+import { toJSONSchema } from './jsonschema.js';
+import { computeStats, computeStreamStats } from './stats.js';
+import type { AnalyzeOptions, Logger, MultiTableSchema } from './types.js';
+import { AIEnrichmentError, InvalidInputError } from './types.js';
+import { toTypeScript } from './typescript.js';
+import { BudgetExceededError } from './usage.js';
+
+const EXIT_CODES = {
+    success: 0,
+    error: 1,
+    usage: 2,
+    invalidInput: 3,
+    limitExceeded: 4,
+    enrichmentFailed: 5,
+    budgetExceeded: 6,
+    interrupted: 130,
+} as const;
+
+const USAGE = `Usage: smart-schema <command> [options]
+
+Commands:
+  analyze <file...>          Analyze a .json, .ndjson/.jsonl, .csv or .tsv file
+                             (several CSV/TSV files become one table each)
+  stats <file...>            Compute statistics only, without AI
+  render <schema.json>       Render a schema: --format markdown | jsonschema | ts
+
+Analyze options:
+  --skip-ai                  Structure only; no API calls
+  --model <name>             Model for enrichment
+  --max-rows <n>             Rows sampled per table
+  --max-depth <n>            Nesting depth before truncation
+  --timeout <ms>             Timeout per enrichment stage
+  --concurrency <n>          Field batches in flight at once
+  --previous <schema.json>   Re-enrich only new or changed fields
+  --cache-dir <dir>          Cache stage results on disk
+  --max-tokens <n>           Token budget for the run
+  --max-cost <usd>           Cost budget for the run
+
+Common options:
+  --out <file>               Write to a file instead of stdout
+  --delimiter <char>         CSV delimiter (default: , or tab for .tsv)
+  --verbose                  Log progress to stderr
+  -h, --help                 Show this help
+
+The API key is read from ANTHROPIC_API_KEY.
+
+Exit codes: 0 ok, 1 error, 2 usage, 3 invalid input, 4 limit exceeded,
+5 AI enrichment failed, 6 budget exceeded, 130 interrupted.`;
+
+const OPTIONS = {
+    'skip-ai': { type: 'boolean' },
+    model: { type: 'string' },
+    'max-rows': { type: 'string' },
+    'max-depth': { type: 'string' },
+    timeout: { type: 'string' },
+    concurrency: { type: 'string' },
+    previous: { type: 'string' },
+    'cache-dir': { type: 'string' },
+    'max-tokens': { type: 'string' },
+    'max-cost': { type: 'string' },
+    format: { type: 'string' },
+    out: { type: 'string' },
+    delimiter: { type: 'string' },
+    verbose: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CommandLine = ReturnType<
+    typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>
+>;
+type Flags = CommandLine['values'];
+
+type InputKind = 'json' | 'ndjson' | 'csv';
+
+const INPUT_KINDS: Readonly<Record<string, InputKind>> = {
+    '.json': 'json',
+    '.ndjson': 'ndjson',
+    '.jsonl': 'ndjson',
+    '.csv': 'csv',
+    '.tsv': 'csv',
+};
+
+const RENDERERS: Readonly<Record<string, (schema: MultiTableSchema) => string>> = {
+    markdown: (schema) => renderDataDictionary(schema, { format: 'markdown' }),
+    jsonschema: (schema) => `${JSON.stringify(toJSONSchema(schema), null, 2)}\n`,
+    ts: toTypeScript,
+};
+
+class UsageError extends Error {
+    public readonly name = 'UsageError' as const;
+}
+
+function createStderrLogger(verbose: boolean): Logger {
+    const write = (level: string, message: string, args: unknown[]): void => {
+        console.error(`[${level}] ${message}`, ...args);
+    };
+
+    return {
+        debug: (message, ...args) => verbose && write('DEBUG', message, args),
+        info: (message, ...args) => verbose && write('INFO', message, args),
+        warn: (message, ...args) => write('WARN', message, args),
+        error: (message, ...args) => write('ERROR', message, args),
+    };
+}
+
+function parseCommandLine(argv: readonly string[]): CommandLine {
+    try {
+        return parseArgs({ args: [...argv], options: OPTIONS, allowPositionals: true });
+    } catch (error) {
+        throw new UsageError((error as Error).message);
+    }
+}
+
+function parseNumberFlag(flags: Flags, name: keyof Flags): number | undefined {
+    const value = flags[name];
+
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+
+    const number = Number(value);
+
+    if (value.trim() === '' || !Number.isFinite(number) || number < 0) {
+        throw new UsageError(`--${name} expects a non-negative number, got "${value}"`);
+    }
+
+    return number;
+}
+
+/** Rows, depths and batches are counted, so they take whole numbers from 1 up. */
+function parseCountFlag(flags: Flags, name: keyof Flags): number | undefined {
+    const number = parseNumberFlag(flags, name);
+
+    if (number !== undefined && (!Number.isInteger(number) || number < 1)) {
+        throw new UsageError(`--${name} expects a positive integer, got "${flags[name]}"`);
+    }
+
+    return number;
+}
+
+function parseDelimiterFlag(flags: Flags): string | undefined {
+    const { delimiter } = flags;
+
+    if (delimiter !== undefined && !isValidDelimiter(delimiter)) {
+        throw new UsageError(
+            `--delimiter expects text without quotes or line breaks, got ${JSON.stringify(delimiter)}`
+        );
+    }
+
+    return delimiter;
+}
+
+function inputKind(path: string): InputKind {
+    const kind = INPUT_KINDS[extname(path).toLowerCase()];
+
+    if (!kind) {
+        throw new UsageError(
+            `Unsupported file type: ${path} (expected .json, .ndjson, .jsonl, .csv or .tsv)`
+        );
+    }
+
+    return kind;
+}
+
+/** Several files are only allowed for CSV/TSV, where each becomes a table. */
+function resolveInputKind(files: readonly string[]): InputKind {
+    const [first] = files;
+
+    if (first === undefined) {
+        throw new UsageError('Missing input file');
+    }
+
+    const kind = inputKind(first);
+
+    if (files.length > 1 && !files.every((file) => inputKind(file) === 'csv')) {
+        throw new UsageError('Several input files are only supported for CSV and TSV');
+    }
+
+    return kind;
+}
+
+async function readJsonFile(path: string): Promise<unknown> {
+    const text = await readFile(path, 'utf8');
+
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new InvalidInputError('malformed', `${path}: ${(error as Error).message}`);
+    }
+}
+
+/** JSON and CSV are loaded whole; NDJSON is left to the streaming reader. */
+async function loadInput(
+    files: readonly string[],
+    delimiter: string | undefined
+): Promise<unknown> {
+    if (resolveInputKind(files) === 'json') {
+        return readJsonFile(files[0] ?? '');
+    }
+
+    return readCsvFiles(files, { ...(delimiter !== undefined && { delimiter }) });
+}
+
+async function buildAnalyzeOptions(
+    flags: Flags,
+    logger: Logger,
+    signal: AbortSignal
+): Promise<AnalyzeOptions> {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    const skipAI = flags['skip-ai'] ?? false;
+
+    if (!skipAI && !apiKey) {
+        throw new UsageError('Set ANTHROPIC_API_KEY or pass --skip-ai');
+    }
+
+    const maxRows = parseCountFlag(flags, 'max-rows');
+    const maxDepth = parseCountFlag(flags, 'max-depth');
+    const timeout = parseNumberFlag(flags, 'timeout');
+    const concurrency = parseCountFlag(flags, 'concurrency');
+    const maxTokens = parseNumberFlag(flags, 'max-tokens');
+    const maxCost = parseNumberFlag(flags, 'max-cost');
+    const previous = flags.previous;
+    const cacheDirectory = flags['cache-dir'];
+
+    return {
+        logger,
+        signal,
+        skipAI,
+        ...(apiKey && { apiKey }),
+        ...(flags.model !== undefined && { model: flags.model }),
+        ...(maxRows !== undefined && { maxRows }),
+        ...(maxDepth !== undefined && { maxDepth }),
+        ...(timeout !== undefined && { timeout }),
+        ...(concurrency !== undefined && { concurrency }),
+        ...((maxTokens !== undefined || maxCost !== undefined) && {
+            budget: {
+                ...(maxTokens !== undefined && { maxTokens }),
+                ...(maxCost !== undefined && { maxCost }),
+            },
+        }),
+        ...(previous !== undefined && {
+            previousSchema: (await readJsonFile(previous)) as MultiTableSchema,
+        }),
+        ...(cacheDirectory !== undefined && {
+            cache: createFileCache({ directory: cacheDirectory }),
+        }),
+    };
+}
+
+async function runAnalyze(
+    files: readonly string[],
+    flags: Flags,
+    logger: Logger,
+    signal: AbortSignal
+): Promise<unknown> {
+    const kind = resolveInputKind(files);
+    const delimiter = parseDelimiterFlag(flags);
+    const options = await buildAnalyzeOptions(flags, logger, signal);
+
+    if (kind === 'ndjson') {
+        const { schema } = await analyzeStream(files[0] ?? '', options);
+        return schema;
+    }
+
+    return analyze(await loadInput(files, delimiter), options);
+}
+
+async function runStats(
+    files: readonly string[],
+    flags: Flags,
+    signal: AbortSignal
+): Promise<unknown> {
+    const maxRows = parseCountFlag(flags, 'max-rows');
+    const maxDepth = parseCountFlag(flags, 'max-depth');
+    const delimiter = parseDelimiterFlag(flags);
+    const options = {
+        signal,
+        ...(maxRows !== undefined && { maxRows }),
+        ...(maxDepth !== undefined && { maxDepth }),
+    };
+
+    if (resolveInputKind(files) === 'ndjson') {
+        return computeStreamStats(files[0] ?? '', options);
+    }
+
+    return computeStats(await loadInput(files, delimiter), options);
+}
+
+async function runRender(files: readonly string[], flags: Flags): Promise<string> {
+    const [schemaPath] = files;
+    const format = flags.format ?? 'markdown';
+    const render = RENDERERS[format];
+
+    if (schemaPath === undefined) {
+        throw new UsageError('Missing schema file');
+    }
+
+    if (!render) {
+        throw new UsageError(`--format must be one of ${Object.keys(RENDERERS).join(', ')}`);
+    }
+
+    return render((await readJsonFile(schemaPath)) as MultiTableSchema);
+}
+
+async function runCommand(
+    command: string | undefined,
+    files: readonly string[],
+    flags: Flags,
+    signal: AbortSignal
+): Promise<string> {
+    const logger = createStderrLogger(flags.verbose ?? false);
+
+    switch (command) {
+        case 'analyze':
+            return `${JSON.stringify(await runAnalyze(files, flags, logger, signal), null, 2)}\n`;
+        case 'stats':
+            return `${JSON.stringify(await runStats(files, flags, signal), null, 2)}\n`;
+        case 'render':
+            return runRender(files, flags);
+        default:
+            throw new UsageError(
+                command === undefined ? 'Missing command' : `Unknown command: ${command}`
+            );
+    }
+}
+
+function exitCodeFor(error: unknown, signal?: AbortSignal): number {
+    if (signal?.aborted) {
+        return EXIT_CODES.interrupted;
+    }
+    if (error instanceof UsageError) {
+        return EXIT_CODES.usage;
+    }
+    if (error instanceof InvalidInputError) {
+        return EXIT_CODES.invalidInput;
+    }
+    if (error instanceof LimitExceededError) {
+        return EXIT_CODES.limitExceeded;
+    }
+    if (error instanceof AIEnrichmentError) {
+        return EXIT_CODES.enrichmentFailed;
+    }
+    if (error instanceof BudgetExceededError) {
+        return EXIT_CODES.budgetExceeded;
+    }
+    return EXIT_CODES.error;
+}
+
+/**
+ * Runs the CLI and resolves to its exit code. Output goes to stdout or
+ * `--out`; logs and errors go to stderr. Nothing is written on failure, so
+ * Make never sees a stale or partial target as up to date.
+ */
+async function main(argv: readonly string[], signal: AbortSignal): Promise<number> {
+    try {
+        const { values: flags, positionals } = parseCommandLine(argv);
+
+        if (flags.help) {
+            console.log(USAGE);
+            return EXIT_CODES.success;
+        }
+
+        const [command, ...files] = positionals;
+        const output = await runCommand(command, files, flags, signal);
+
+        if (flags.out === undefined) {
+            process.stdout.write(output);
+        } else {
+            await writeFile(flags.out, output);
+        }
+
+        return EXIT_CODES.success;
+    } catch (error) {
+        const code = exitCodeFor(error, signal);
+        const message = error instanceof Error ? error.message : String(error);
+
+        console.error(`smart-schema: ${code === EXIT_CODES.interrupted ? 'Interrupted' : message}`);
+
+        if (code === EXIT_CODES.usage) {
+            console.error('Run smart-schema --help for usage.');
+        }
+
+        return code;
+    }
+}
+
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
+main(process.argv.slice(2), controller.signal).then((code) => {
+    process.exitCode = code;
+});
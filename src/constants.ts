@@ -1,15 +1,33 @@
 export const LIMITS = {
-    maxTablesForEnrichment: 20,
-    maxFieldsForEnrichment: 500,
-    maxFieldsWarningThreshold: 200,
+    maxTablesForEnrichment: 200,
+    maxFieldsForEnrichment: 5_000,
+    maxFieldsWarningThreshold: 2_000,
+    maxContextPathsPerTable: 40,
     maxRowsToSample: 10_000,
     maxTraversalDepth: 50,
     maxExamplesPerField: 5,
+    distinctSketchSize: 1024,
+    maxTrackedValuesPerField: 1000,
+    maxTopValues: 10,
+    maxCandidateKeys: 5,
+    maxKeyCandidateColumns: 12,
+    maxCompositeKeySize: 3,
+    maxValidationViolations: 100,
+    /** Rows between abort signal checks while profiling a table. */
+    abortCheckInterval: 1_000,
 } as const;
 
 export const THRESHOLDS = {
     formatDetection: 0.9,
     mixedType: 0.1,
+    enumCardinality: 20,
+    enumMinAverageOccurrences: 2,
+    freeTextDistinctRatio: 0.9,
+    freeTextMinLength: 40,
+    foreignKeyContainment: 0.9,
+    foreignKeyMinDistinctValues: 2,
+    foreignKeyFullSupportValues: 10,
+    relationshipConfidence: 0.6,
 } as const;
 
 export const AI_CONFIG = {
@@ -24,9 +42,30 @@ export const AI_CONFIG = {
             maximum: 32_000,
         },
     },
+    fieldBatch: {
+        maxFields: 150,
+        maxTables: 10,
+    },
+    defaultConcurrency: 4,
+    retry: {
+        maxRetries: 3,
+        repairAttempts: 2,
+        baseDelayMs: 1_000,
+        maxDelayMs: 30_000,
+    },
     temperature: 0.1,
+    charsPerTokenEstimate: 4,
 } as const;
 
+/** US dollars per million tokens, by model name prefix. Used for cost estimates only. */
+export const MODEL_PRICES: Readonly<Record<string, { input: number; output: number }>> = {
+    'claude-opus-4': { input: 15, output: 75 },
+    'claude-opus-4-5': { input: 5, output: 25 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-haiku-4': { input: 1, output: 5 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+};
+
 export const TYPE_MAPPING: Readonly<Record<string, string>> = {
     null: 'null',
     bool: 'boolean',
@@ -68,6 +107,11 @@ export const FIELD_ROLE_PATTERNS = {
     },
 } as const;
 
+export const KEY_INDICATORS = {
+    sequenceSuffixes: ['_no', '_num', '_number', '_seq', '_index', '_line', '_position'],
+    identifierNames: ['id', 'sku', 'uuid', 'guid'],
+} as const;
+
 export const RELATIONSHIP_INDICATORS = {
     foreignKeySuffixes: ['_id', 'Id'],
     selfReferencePatterns: ['parent', 'manager'],
@@ -0,0 +1,179 @@
+import { AI_CONFIG } from './constants.js';
+import type { Field, FieldRole, MultiTableSchema, TableSchema } from './types.js';
+
+export type PromptContextDetail = 'full' | 'standard' | 'minimal';
+
+export interface PromptContextOptions {
+    readonly maxTokens?: number;
+    readonly detail?: PromptContextDetail;
+}
+
+type Reduction =
+    | 'examples'
+    | 'metadataDescriptions'
+    | 'piiNotes'
+    | 'descriptions'
+    | 'optionalFields';
+
+/** Detail is shed in this order until the rendered context fits the budget. */
+const REDUCTIONS: readonly Reduction[] = [
+    'examples',
+    'metadataDescriptions',
+    'piiNotes',
+    'descriptions',
+    'optionalFields',
+];
+
+const DETAIL_LEVELS: Readonly<Record<PromptContextDetail, number>> = {
+    full: 0,
+    standard: 1,
+    minimal: 4,
+};
+
+const ESSENTIAL_ROLES: ReadonlySet<FieldRole> = new Set([
+    'identifier',
+    'reference',
+    'measure',
+    'dimension',
+    'time',
+]);
+
+const MAX_EXAMPLE_VALUES = 5;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / AI_CONFIG.charsPerTokenEstimate);
+}
+
+function singleLine(text: string): string {
+    return text.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+function describeType(field: Field): string {
+    const base = field.type === 'array' && field.itemType ? `${field.itemType}[]` : field.type;
+    const format = field.format ? `(${field.format})` : '';
+
+    return `${base}${format}${field.nullable ? '?' : ''}`;
+}
+
+function describeExamples(field: Field): string | undefined {
+    if (field.enumValues) {
+        return `values: ${field.enumValues.map((entry) => String(entry.value)).join('|')}`;
+    }
+
+    const numeric = field.profile?.numeric;
+    if (numeric) {
+        return `range: ${numeric.min}..${numeric.max}`;
+    }
+
+    const topValues = field.profile?.topValues;
+    if (topValues && topValues.length > 0) {
+        const values = topValues.slice(0, MAX_EXAMPLE_VALUES).map((entry) => String(entry.value));
+        return `e.g. ${values.join(', ')}`;
+    }
+
+    return undefined;
+}
+
+function renderField(field: Field, applied: ReadonlySet<Reduction>): string {
+    const tags: string[] = [field.role];
+
+    if (field.unit) {
+        tags.push(field.unit);
+    }
+
+    if (field.role === 'measure' && field.aggregation && field.aggregation !== 'none') {
+        tags.push(field.aggregation);
+    }
+
+    if (field.personalData && !applied.has('piiNotes')) {
+        tags.push(`pii:${field.personalData}`);
+    }
+
+    const examples = applied.has('examples') ? undefined : describeExamples(field);
+    if (examples) {
+        tags.push(examples);
+    }
+
+    const dropDescription =
+        applied.has('descriptions') ||
+        (field.role === 'metadata' && applied.has('metadataDescriptions'));
+    const description = dropDescription ? '' : ` - ${singleLine(field.description)}`;
+
+    return `  ${field.path}: ${describeType(field)} [${tags.join('; ')}]${description}`;
+}
+
+function renderTable(
+    tableName: string,
+    table: TableSchema,
+    applied: ReadonlySet<Reduction>
+): string[] {
+    const key = table.primaryKey ? `; key: ${table.primaryKey.join(', ')}` : '';
+    const lines = [`table ${tableName} (${table.dataGrain}${key})`];
+
+    if (!applied.has('descriptions')) {
+        lines.push(`  ${singleLine(table.description)}`);
+    }
+
+    if (table.entities.length > 0) {
+        lines.push(`  entities: ${table.entities.map((entity) => entity.name).join(', ')}`);
+    }
+
+    const fields = applied.has('optionalFields')
+        ? table.fields.filter((field) => ESSENTIAL_ROLES.has(field.role))
+        : table.fields;
+
+    lines.push(...fields.map((field) => renderField(field, applied)));
+
+    const omitted = table.fields.length - fields.length;
+    if (omitted > 0) {
+        lines.push(`  (${omitted} text/metadata fields omitted)`);
+    }
+
+    return lines;
+}
+
+function renderContext(schema: MultiTableSchema, applied: ReadonlySet<Reduction>): string {
+    const lines = [`domain: ${schema.domain} - ${singleLine(schema.description)}`];
+
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        lines.push(...renderTable(tableName, table, applied));
+    }
+
+    const relationships = schema.relationships ?? [];
+    if (relationships.length > 0) {
+        lines.push('relationships');
+        lines.push(
+            ...relationships.map(
+                (rel) => `  ${rel.from} -> ${rel.to} (${rel.type}, ${rel.confidence.toFixed(2)})`
+            )
+        );
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Serializes a schema into a compact text form for LLM prompts. With
+ * `maxTokens`, lower-value detail is dropped step by step until the estimate
+ * fits; identifiers, measures, dimensions, time fields and relationships are
+ * always kept, so the result can still exceed a very small budget.
+ */
+export function toPromptContext(
+    schema: MultiTableSchema,
+    options: PromptContextOptions = {}
+): string {
+    const { maxTokens, detail = 'full' } = options;
+    let level = DETAIL_LEVELS[detail];
+    let context = renderContext(schema, new Set(REDUCTIONS.slice(0, level)));
+
+    while (
+        maxTokens !== undefined &&
+        estimateTokens(context) > maxTokens &&
+        level < REDUCTIONS.length
+    ) {
+        level++;
+        context = renderContext(schema, new Set(REDUCTIONS.slice(0, level)));
+    }
+
+    return context;
+}
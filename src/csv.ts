@@ -0,0 +1,341 @@
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { InvalidInputError } from './types.js';
+import type { PlainObject } from './utils.js';
+
+export interface CsvOptions {
+    /** Default `,`, or a tab for `.tsv` files in `readCsvFiles`. */
+    readonly delimiter?: string;
+    /** Default true. False keeps every cell a string. */
+    readonly coerce?: boolean;
+    /** Read an ambiguous `01/02/2024` as 1 February. Default false: January 2. */
+    readonly dayFirst?: boolean;
+}
+
+interface CsvRecord {
+    readonly fields: readonly string[];
+    /** Line the record starts on; quoted fields can span lines. */
+    readonly line: number;
+}
+
+const NUMBER_PATTERN = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/;
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const LEADING_ZERO_PATTERN = /^[-+]?0\d/;
+const BOOLEAN_PATTERN = /^(?:true|false)$/i;
+const TIME_SUFFIX = String.raw`(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?`;
+const YEAR_FIRST_DATE = new RegExp(String.raw`^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})${TIME_SUFFIX}$`);
+const YEAR_LAST_DATE = new RegExp(String.raw`^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})${TIME_SUFFIX}$`);
+
+/** A delimiter is any non-empty text without quotes or line breaks. */
+export function isValidDelimiter(delimiter: string): boolean {
+    return delimiter !== '' && !/["\r\n]/.test(delimiter);
+}
+
+function malformed(line: number, detail: string): InvalidInputError {
+    return new InvalidInputError('malformed', `line ${line}: ${detail}`);
+}
+
+interface QuotedField {
+    readonly value: string;
+    /** Index of the closing quote. */
+    readonly end: number;
+    readonly newlines: number;
+}
+
+function readQuotedField(text: string, start: number, line: number): QuotedField {
+    let value = '';
+
+    for (let from = start + 1; ; ) {
+        const quote = text.indexOf('"', from);
+
+        if (quote === -1) {
+            throw malformed(line, 'unterminated quoted field');
+        }
+
+        value += text.slice(from, quote);
+
+        if (text[quote + 1] !== '"') {
+            return { value, end: quote, newlines: value.split('\n').length - 1 };
+        }
+
+        value += '"';
+        from = quote + 2;
+    }
+}
+
+/** RFC 4180 records: quoted fields may hold delimiters, newlines and `""` escapes. */
+function* parseRecords(text: string, delimiter: string): Generator<CsvRecord> {
+    let fields: string[] = [];
+    let field = '';
+    let line = 1;
+    let recordLine = 1;
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+
+        if (char === '"' && field === '') {
+            const quoted = readQuotedField(text, index, line);
+            field = quoted.value;
+            index = quoted.end;
+            line += quoted.newlines;
+        } else if (text.startsWith(delimiter, index)) {
+            fields.push(field);
+            field = '';
+            index += delimiter.length - 1;
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[index + 1] === '\n') {
+                index++;
+            }
+            fields.push(field);
+            yield { fields, line: recordLine };
+            fields = [];
+            field = '';
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || fields.length > 0) {
+        fields.push(field);
+        yield { fields, line: recordLine };
+    }
+}
+
+function isBlank(record: CsvRecord): boolean {
+    return record.fields.length === 1 && record.fields[0]?.trim() === '';
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+    let candidate = name;
+
+    for (let suffix = 2; taken.has(candidate); suffix++) {
+        candidate = `${name}_${suffix}`;
+    }
+
+    taken.add(candidate);
+    return candidate;
+}
+
+function buildHeader(fields: readonly string[]): string[] {
+    const taken = new Set<string>();
+    return fields.map((field, index) => uniqueName(field.trim() || `column_${index + 1}`, taken));
+}
+
+function coerceNumber(value: string): number | undefined {
+    if (!NUMBER_PATTERN.test(value) || LEADING_ZERO_PATTERN.test(value)) {
+        return undefined;
+    }
+
+    const number = Number(value);
+
+    // Long digit strings are usually identifiers and would lose digits.
+    if (INTEGER_PATTERN.test(value) && !Number.isSafeInteger(number)) {
+        return undefined;
+    }
+
+    return number;
+}
+
+function pad(value: number, width = 2): string {
+    return String(value).padStart(width, '0');
+}
+
+function toIsoDate(
+    year: number,
+    month: number,
+    day: number,
+    time: readonly string[]
+): string | undefined {
+    const [hours, minutes, seconds] = time.map((part) => Number(part ?? 0));
+    const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+
+    if (
+        date.getUTCFullYear() !== year ||
+        date.getUTCMonth() !== month - 1 ||
+        date.getUTCDate() !== day ||
+        date.getUTCHours() !== hours ||
+        date.getUTCMinutes() !== minutes ||
+        date.getUTCSeconds() !== seconds
+    ) {
+        return undefined;
+    }
+
+    const isoDate = `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+
+    return time[0] === undefined
+        ? isoDate
+        : `${isoDate}T${pad(hours ?? 0)}:${pad(minutes ?? 0)}:${pad(seconds ?? 0)}`;
+}
+
+/**
+ * Rewrites `2024/1/15`, `15.01.2024` and `01/15/2024`, with an optional
+ * `HH:MM[:SS]`, as ISO 8601, which stats recognize as dates.
+ */
+function coerceDate(value: string, dayFirst: boolean): string | undefined {
+    const yearFirst = YEAR_FIRST_DATE.exec(value);
+
+    if (yearFirst) {
+        const [, year, month, day, ...time] = yearFirst;
+        return toIsoDate(Number(year), Number(month), Number(day), time);
+    }
+
+    const yearLast = YEAR_LAST_DATE.exec(value);
+
+    if (!yearLast) {
+        return undefined;
+    }
+
+    const [, first, second, year, ...time] = yearLast;
+    const [day, month] = dayFirst ? [first, second] : [second, first];
+
+    return toIsoDate(Number(year), Number(month), Number(day), time);
+}
+
+type Coercer = (value: string, dayFirst: boolean) => unknown;
+
+/** Tried in order; a column takes the first type all of its cells convert to. */
+const COLUMN_COERCERS: readonly Coercer[] = [
+    (value) => (BOOLEAN_PATTERN.test(value) ? value.toLowerCase() === 'true' : undefined),
+    (value) => coerceNumber(value),
+    coerceDate,
+];
+
+/** A cell with a first part over 12 means day-first, a second part over 12 month-first. */
+function inferDayFirst(values: readonly string[], fallback: boolean): boolean {
+    for (const value of values) {
+        const match = YEAR_LAST_DATE.exec(value);
+
+        if (match && Number(match[1]) > 12) {
+            return true;
+        }
+
+        if (match && Number(match[2]) > 12) {
+            return false;
+        }
+    }
+
+    return fallback;
+}
+
+function coerceAll(
+    values: readonly string[],
+    coercer: Coercer,
+    dayFirst: boolean
+): unknown[] | undefined {
+    const coerced: unknown[] = [];
+
+    for (const value of values) {
+        const result = coercer(value, dayFirst);
+
+        if (result === undefined) {
+            return undefined;
+        }
+
+        coerced.push(result);
+    }
+
+    return coerced;
+}
+
+/**
+ * Empty cells become null. The rest convert only when every non-empty cell in
+ * the column reads as the same type, so one `02134` keeps a zip code column
+ * all strings instead of mixing numbers and strings.
+ */
+function coerceColumn(cells: readonly string[], dayFirst: boolean): unknown[] {
+    const values = cells.map((cell) => cell.trim());
+    const present = values.filter((value) => value !== '');
+    const columnDayFirst = inferDayFirst(present, dayFirst);
+
+    for (const coercer of present.length > 0 ? COLUMN_COERCERS : []) {
+        const coerced = coerceAll(present, coercer, columnDayFirst);
+
+        if (coerced) {
+            let next = 0;
+            return values.map((value) => (value === '' ? null : coerced[next++]));
+        }
+    }
+
+    return cells.map((cell, index) => (values[index] === '' ? null : cell));
+}
+
+/**
+ * Parses delimited text with a header row into one object per row. Blank
+ * lines are skipped and short rows are padded with null; a row with more
+ * cells than the header, or an invalid delimiter, throws `InvalidInputError`
+ * with reason `'malformed'`.
+ */
+export function parseCsv(text: string, options: CsvOptions = {}): PlainObject[] {
+    const { delimiter = ',', coerce = true, dayFirst = false } = options;
+
+    if (!isValidDelimiter(delimiter)) {
+        throw new InvalidInputError('malformed', `invalid delimiter ${JSON.stringify(delimiter)}`);
+    }
+
+    let header: string[] | undefined;
+    const records: (readonly string[])[] = [];
+
+    for (const record of parseRecords(text.replace(/^\uFEFF/, ''), delimiter)) {
+        if (isBlank(record)) {
+            continue;
+        }
+
+        if (!header) {
+            header = buildHeader(record.fields);
+            continue;
+        }
+
+        if (record.fields.length > header.length) {
+            throw malformed(
+                record.line,
+                `${record.fields.length} cells, header has ${header.length}`
+            );
+        }
+
+        records.push(record.fields);
+    }
+
+    const names = header ?? [];
+    const columns = names.map((_name, index) => {
+        const cells = records.map((fields) => fields[index]);
+
+        if (!coerce) {
+            return cells.map((cell) => cell ?? null);
+        }
+
+        return coerceColumn(
+            cells.map((cell) => cell ?? ''),
+            dayFirst
+        );
+    });
+
+    return records.map((_record, rowIndex) =>
+        Object.fromEntries(names.map((name, index) => [name, columns[index]?.[rowIndex]]))
+    );
+}
+
+/**
+ * Reads CSV or TSV files into tables named after each file, ready for
+ * `analyze`. `data/orders.tsv` becomes `orders`, tab-separated unless
+ * `delimiter` is set.
+ */
+export async function readCsvFiles(
+    paths: readonly string[],
+    options: CsvOptions = {}
+): Promise<Record<string, PlainObject[]>> {
+    const contents = await Promise.all(paths.map((path) => readFile(path, 'utf8')));
+    const taken = new Set<string>();
+    const tables: Record<string, PlainObject[]> = {};
+
+    paths.forEach((path, index) => {
+        const extension = extname(path);
+        const delimiter = options.delimiter ?? (extension.toLowerCase() === '.tsv' ? '\t' : ',');
+        const tableName = uniqueName(basename(path, extension), taken);
+
+        tables[tableName] = parseCsv(contents[index] ?? '', { ...options, delimiter });
+    });
+
+    return tables;
+}
@@ -0,0 +1,279 @@
+import type { Field, MultiTableSchema, Relationship, TableSchema } from './types.js';
+
+export type DataDictionaryFormat = 'markdown' | 'html';
+
+export interface DataDictionaryOptions {
+    readonly format: DataDictionaryFormat;
+    readonly title?: string;
+}
+
+interface Link {
+    readonly text: string;
+    readonly href: string;
+}
+
+type Inline = string | Link | { readonly badge: string };
+
+type Block =
+    | {
+          readonly kind: 'heading';
+          readonly level: 1 | 2 | 3;
+          readonly text: string;
+          readonly id?: string;
+      }
+    | { readonly kind: 'paragraph'; readonly parts: readonly Inline[] }
+    | { readonly kind: 'list'; readonly items: readonly (readonly Inline[])[] }
+    | {
+          readonly kind: 'table';
+          readonly headers: readonly string[];
+          readonly rows: readonly (readonly Inline[])[];
+      };
+
+const FIELD_HEADERS = ['Path', 'Type', 'Role', 'Unit', 'Aggregation', 'PII', 'Description'];
+const RELATIONSHIP_HEADERS = ['From', 'To', 'Type', 'Confidence', 'Description'];
+const RELATIONSHIPS_ID = 'relationships';
+
+const HTML_STYLE = `body { font-family: system-ui, sans-serif; max-width: 72rem; margin: 2rem auto; padding: 0 1rem; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+th, td { border: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+.pii { background: #fde2e1; color: #9b1c1c; border-radius: 0.25rem; padding: 0 0.35rem; font-size: 0.85em; }`;
+
+function tableAnchor(tableName: string): string {
+    return `table-${tableName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+}
+
+function describeFieldType(field: Field): string {
+    const base = field.type === 'array' && field.itemType ? `${field.itemType}[]` : field.type;
+    const format = field.format ? ` (${field.format})` : '';
+
+    return `${base}${format}${field.nullable ? ' | null' : ''}`;
+}
+
+function describeField(field: Field): string {
+    if (!field.enumValues) {
+        return field.description;
+    }
+
+    const values = field.enumValues.map((entry) => String(entry.value)).join(', ');
+    return `${field.description} Values: ${values}.`;
+}
+
+function fieldRow(field: Field): Inline[] {
+    return [
+        field.path,
+        describeFieldType(field),
+        field.role,
+        field.unit ?? '',
+        field.aggregation && field.aggregation !== 'none' ? field.aggregation : '',
+        field.personalData ? { badge: `PII: ${field.personalData}` } : '',
+        describeField(field),
+    ];
+}
+
+function linkEndpoint(endpoint: string, tableNames: readonly string[]): Inline {
+    const table = tableNames
+        .filter((name) => endpoint.startsWith(`${name}.`))
+        .sort((nameA, nameB) => nameB.length - nameA.length)[0];
+
+    return table ? { text: endpoint, href: `#${tableAnchor(table)}` } : endpoint;
+}
+
+function relationshipRow(relationship: Relationship, tableNames: readonly string[]): Inline[] {
+    return [
+        linkEndpoint(relationship.from, tableNames),
+        linkEndpoint(relationship.to, tableNames),
+        relationship.type,
+        relationship.confidence.toFixed(2),
+        relationship.description,
+    ];
+}
+
+function tableBlocks(tableName: string, table: TableSchema): Block[] {
+    const blocks: Block[] = [
+        { kind: 'heading', level: 2, text: tableName, id: tableAnchor(tableName) },
+        { kind: 'paragraph', parts: [table.description] },
+        { kind: 'paragraph', parts: [`Domain: ${table.domain}. Grain: ${table.dataGrain}.`] },
+    ];
+
+    if (table.primaryKey) {
+        blocks.push({ kind: 'paragraph', parts: [`Primary key: ${table.primaryKey.join(', ')}`] });
+    }
+
+    if (table.entities.length > 0) {
+        blocks.push(
+            { kind: 'heading', level: 3, text: 'Entities' },
+            {
+                kind: 'list',
+                items: table.entities.map((entity) => [
+                    `${entity.name}: ${entity.description}`,
+                    ...(entity.idField ? [` (identified by ${entity.idField})`] : []),
+                ]),
+            }
+        );
+    }
+
+    blocks.push(
+        { kind: 'heading', level: 3, text: 'Fields' },
+        { kind: 'table', headers: FIELD_HEADERS, rows: table.fields.map(fieldRow) }
+    );
+
+    return blocks;
+}
+
+function buildDocument(schema: MultiTableSchema, title: string): Block[] {
+    const tableNames = Object.keys(schema.tables);
+    const relationships = schema.relationships ?? [];
+
+    const contents: Inline[][] = tableNames.map((name) => [
+        { text: name, href: `#${tableAnchor(name)}` },
+    ]);
+
+    if (relationships.length > 0) {
+        contents.push([{ text: 'Relationships', href: `#${RELATIONSHIPS_ID}` }]);
+    }
+
+    const blocks: Block[] = [
+        { kind: 'heading', level: 1, text: title },
+        { kind: 'paragraph', parts: [schema.description] },
+        { kind: 'paragraph', parts: [`Domain: ${schema.domain}. Tables: ${tableNames.length}.`] },
+        { kind: 'list', items: contents },
+    ];
+
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        blocks.push(...tableBlocks(tableName, table));
+    }
+
+    if (relationships.length > 0) {
+        blocks.push(
+            { kind: 'heading', level: 2, text: 'Relationships', id: RELATIONSHIPS_ID },
+            {
+                kind: 'table',
+                headers: RELATIONSHIP_HEADERS,
+                rows: relationships.map((rel) => relationshipRow(rel, tableNames)),
+            }
+        );
+    }
+
+    return blocks;
+}
+
+function escapeMarkdown(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/([*_`[\]<>|])/g, '\\$1')
+        .replace(/\s*\n\s*/g, ' ');
+}
+
+function renderMarkdownInline(parts: readonly Inline[]): string {
+    return parts
+        .map((part) => {
+            if (typeof part === 'string') {
+                return escapeMarkdown(part);
+            }
+
+            return 'badge' in part
+                ? `**${escapeMarkdown(part.badge)}**`
+                : `[${escapeMarkdown(part.text)}](${part.href})`;
+        })
+        .join('');
+}
+
+function renderMarkdownBlock(block: Block): string {
+    switch (block.kind) {
+        case 'heading': {
+            const anchor = block.id ? `<a id="${block.id}"></a>\n\n` : '';
+            return `${anchor}${'#'.repeat(block.level)} ${escapeMarkdown(block.text)}`;
+        }
+        case 'paragraph':
+            return renderMarkdownInline(block.parts);
+        case 'list':
+            return block.items.map((item) => `- ${renderMarkdownInline(item)}`).join('\n');
+        case 'table':
+            return [
+                `| ${block.headers.join(' | ')} |`,
+                `| ${block.headers.map(() => '---').join(' | ')} |`,
+                ...block.rows.map(
+                    (row) => `| ${row.map((cell) => renderMarkdownInline([cell])).join(' | ')} |`
+                ),
+            ].join('\n');
+    }
+}
+
+function escapeHTML(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function renderHTMLInline(parts: readonly Inline[]): string {
+    return parts
+        .map((part) => {
+            if (typeof part === 'string') {
+                return escapeHTML(part);
+            }
+
+            return 'badge' in part
+                ? `<span class="pii">${escapeHTML(part.badge)}</span>`
+                : `<a href="${escapeHTML(part.href)}">${escapeHTML(part.text)}</a>`;
+        })
+        .join('');
+}
+
+function renderHTMLBlock(block: Block): string {
+    switch (block.kind) {
+        case 'heading': {
+            const id = block.id ? ` id="${escapeHTML(block.id)}"` : '';
+            return `<h${block.level}${id}>${escapeHTML(block.text)}</h${block.level}>`;
+        }
+        case 'paragraph':
+            return `<p>${renderHTMLInline(block.parts)}</p>`;
+        case 'list':
+            return `<ul>\n${block.items.map((item) => `<li>${renderHTMLInline(item)}</li>`).join('\n')}\n</ul>`;
+        case 'table': {
+            const head = block.headers.map((header) => `<th>${escapeHTML(header)}</th>`).join('');
+            const rows = block.rows.map(
+                (row) =>
+                    `<tr>${row.map((cell) => `<td>${renderHTMLInline([cell])}</td>`).join('')}</tr>`
+            );
+            return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${rows.join('\n')}\n</tbody>\n</table>`;
+        }
+    }
+}
+
+function renderHTMLDocument(title: string, blocks: readonly Block[]): string {
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${escapeHTML(title)}</title>`,
+        `<style>\n${HTML_STYLE}\n</style>`,
+        '</head>',
+        '<body>',
+        ...blocks.map(renderHTMLBlock),
+        '</body>',
+        '</html>',
+    ].join('\n');
+}
+
+/**
+ * Renders a schema as a standalone document for people: a summary with a
+ * table of contents, a section per table, and a relationships section.
+ */
+export function renderDataDictionary(
+    schema: MultiTableSchema,
+    options: DataDictionaryOptions
+): string {
+    const title = options.title ?? `Data dictionary: ${schema.domain}`;
+    const blocks = buildDocument(schema, title);
+
+    if (options.format === 'html') {
+        return `${renderHTMLDocument(title, blocks)}\n`;
+    }
+
+    return `${blocks.map(renderMarkdownBlock).join('\n\n')}\n`;
+}
@@ -0,0 +1,397 @@
+import type {
+    Entity,
+    Field,
+    FieldFormat,
+    FieldRole,
+    FieldType,
+    MultiTableSchema,
+    Relationship,
+    TableSchema,
+} from './types.js';
+
+interface ChangeBase {
+    readonly breaking: boolean;
+    readonly message: string;
+}
+
+interface FieldLocation {
+    readonly table: string;
+    readonly path: string;
+}
+
+interface ValueChange<T> {
+    readonly before: T;
+    readonly after: T;
+}
+
+export type DescriptionScope = 'schema' | 'table' | 'field' | 'entity' | 'relationship';
+
+export type SchemaChange =
+    | (ChangeBase & { readonly kind: 'domain-changed' } & ValueChange<string>)
+    | (ChangeBase & { readonly kind: 'table-added' | 'table-removed'; readonly table: string })
+    | (ChangeBase & { readonly kind: 'field-added' | 'field-removed' } & FieldLocation)
+    | (ChangeBase & { readonly kind: 'type-changed' } & FieldLocation & ValueChange<FieldType>)
+    | (ChangeBase & { readonly kind: 'item-type-changed' } & FieldLocation &
+          ValueChange<FieldType | undefined>)
+    | (ChangeBase & { readonly kind: 'nullable-changed' } & FieldLocation & ValueChange<boolean>)
+    | (ChangeBase & { readonly kind: 'role-changed' } & FieldLocation & ValueChange<FieldRole>)
+    | (ChangeBase & { readonly kind: 'format-changed' } & FieldLocation &
+          ValueChange<FieldFormat | undefined>)
+    | (ChangeBase & { readonly kind: 'unit-changed' } & FieldLocation &
+          ValueChange<string | undefined>)
+    | (ChangeBase & {
+          readonly kind: 'entity-added' | 'entity-removed';
+          readonly table: string;
+          readonly entity: string;
+      })
+    | (ChangeBase & {
+          readonly kind: 'relationship-added' | 'relationship-removed';
+          readonly from: string;
+          readonly to: string;
+      })
+    | (ChangeBase & {
+          readonly kind: 'description-changed';
+          readonly scope: DescriptionScope;
+          readonly target: string;
+      } & ValueChange<string>);
+
+export type SchemaChangeKind = SchemaChange['kind'];
+
+export interface SchemaDiff {
+    readonly changes: readonly SchemaChange[];
+    readonly breaking: boolean;
+}
+
+function isWideningTypeChange(
+    before: FieldType | undefined,
+    after: FieldType | undefined
+): boolean {
+    return before === 'int' && after === 'number';
+}
+
+function describeValue(value: unknown): string {
+    return value === undefined ? 'none' : String(value);
+}
+
+function diffFieldTypes(table: string, before: Field, after: Field): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const { path } = after;
+
+    if (before.type !== after.type) {
+        changes.push({
+            kind: 'type-changed',
+            table,
+            path,
+            before: before.type,
+            after: after.type,
+            breaking: !isWideningTypeChange(before.type, after.type),
+            message: `${table}.${path} type changed from ${before.type} to ${after.type}`,
+        });
+    }
+
+    if (before.itemType !== after.itemType && before.type === 'array' && after.type === 'array') {
+        changes.push({
+            kind: 'item-type-changed',
+            table,
+            path,
+            before: before.itemType,
+            after: after.itemType,
+            breaking:
+                before.itemType !== undefined &&
+                !isWideningTypeChange(before.itemType, after.itemType),
+            message: `${table}.${path} item type changed from ${describeValue(before.itemType)} to ${describeValue(after.itemType)}`,
+        });
+    }
+
+    if (before.nullable !== after.nullable) {
+        changes.push({
+            kind: 'nullable-changed',
+            table,
+            path,
+            before: before.nullable,
+            after: after.nullable,
+            breaking: after.nullable,
+            message: `${table}.${path} is ${after.nullable ? 'now' : 'no longer'} nullable`,
+        });
+    }
+
+    return changes;
+}
+
+function diffFieldSemantics(table: string, before: Field, after: Field): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const { path } = after;
+
+    if (before.role !== after.role) {
+        changes.push({
+            kind: 'role-changed',
+            table,
+            path,
+            before: before.role,
+            after: after.role,
+            breaking: true,
+            message: `${table}.${path} role changed from ${before.role} to ${after.role}`,
+        });
+    }
+
+    if (before.format !== after.format) {
+        changes.push({
+            kind: 'format-changed',
+            table,
+            path,
+            before: before.format,
+            after: after.format,
+            breaking: before.format !== undefined,
+            message: `${table}.${path} format changed from ${describeValue(before.format)} to ${describeValue(after.format)}`,
+        });
+    }
+
+    if (before.unit !== after.unit) {
+        changes.push({
+            kind: 'unit-changed',
+            table,
+            path,
+            before: before.unit,
+            after: after.unit,
+            breaking: before.unit !== undefined,
+            message: `${table}.${path} unit changed from ${describeValue(before.unit)} to ${describeValue(after.unit)}`,
+        });
+    }
+
+    if (before.description !== after.description) {
+        changes.push({
+            kind: 'description-changed',
+            scope: 'field',
+            target: `${table}.${path}`,
+            before: before.description,
+            after: after.description,
+            breaking: false,
+            message: `${table}.${path} description changed`,
+        });
+    }
+
+    return changes;
+}
+
+function diffFields(table: string, before: TableSchema, after: TableSchema): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const previousFields = new Map(before.fields.map((field) => [field.path, field]));
+    const nextFields = new Map(after.fields.map((field) => [field.path, field]));
+
+    for (const [path, previous] of previousFields) {
+        const next = nextFields.get(path);
+
+        if (!next) {
+            changes.push({
+                kind: 'field-removed',
+                table,
+                path,
+                breaking: true,
+                message: `${table}.${path} was removed`,
+            });
+            continue;
+        }
+
+        changes.push(...diffFieldTypes(table, previous, next));
+        changes.push(...diffFieldSemantics(table, previous, next));
+    }
+
+    for (const path of nextFields.keys()) {
+        if (!previousFields.has(path)) {
+            changes.push({
+                kind: 'field-added',
+                table,
+                path,
+                breaking: false,
+                message: `${table}.${path} was added`,
+            });
+        }
+    }
+
+    return changes;
+}
+
+function diffEntities(table: string, before: TableSchema, after: TableSchema): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const previousEntities = new Map(before.entities.map((entity) => [entity.name, entity]));
+    const nextEntities = new Map<string, Entity>(
+        after.entities.map((entity) => [entity.name, entity])
+    );
+
+    for (const [name, previous] of previousEntities) {
+        const next = nextEntities.get(name);
+
+        if (!next) {
+            changes.push({
+                kind: 'entity-removed',
+                table,
+                entity: name,
+                breaking: true,
+                message: `Entity ${name} was removed from ${table}`,
+            });
+        } else if (previous.description !== next.description) {
+            changes.push({
+                kind: 'description-changed',
+                scope: 'entity',
+                target: `${table}.${name}`,
+                before: previous.description,
+                after: next.description,
+                breaking: false,
+                message: `Entity ${name} description changed`,
+            });
+        }
+    }
+
+    for (const name of nextEntities.keys()) {
+        if (!previousEntities.has(name)) {
+            changes.push({
+                kind: 'entity-added',
+                table,
+                entity: name,
+                breaking: false,
+                message: `Entity ${name} was added to ${table}`,
+            });
+        }
+    }
+
+    return changes;
+}
+
+function diffTable(table: string, before: TableSchema, after: TableSchema): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+
+    if (before.description !== after.description) {
+        changes.push({
+            kind: 'description-changed',
+            scope: 'table',
+            target: table,
+            before: before.description,
+            after: after.description,
+            breaking: false,
+            message: `Table ${table} description changed`,
+        });
+    }
+
+    return [...changes, ...diffFields(table, before, after), ...diffEntities(table, before, after)];
+}
+
+function relationshipKey(relationship: Relationship): string {
+    return `${relationship.from} -> ${relationship.to}`;
+}
+
+function diffRelationships(
+    before: readonly Relationship[],
+    after: readonly Relationship[]
+): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const previous = new Map(before.map((rel) => [relationshipKey(rel), rel]));
+    const next = new Map(after.map((rel) => [relationshipKey(rel), rel]));
+
+    for (const [key, rel] of previous) {
+        const nextRel = next.get(key);
+
+        if (!nextRel) {
+            changes.push({
+                kind: 'relationship-removed',
+                from: rel.from,
+                to: rel.to,
+                breaking: true,
+                message: `Relationship ${key} was removed`,
+            });
+        } else if (rel.description !== nextRel.description) {
+            changes.push({
+                kind: 'description-changed',
+                scope: 'relationship',
+                target: key,
+                before: rel.description,
+                after: nextRel.description,
+                breaking: false,
+                message: `Relationship ${key} description changed`,
+            });
+        }
+    }
+
+    for (const [key, rel] of next) {
+        if (!previous.has(key)) {
+            changes.push({
+                kind: 'relationship-added',
+                from: rel.from,
+                to: rel.to,
+                breaking: false,
+                message: `Relationship ${key} was added`,
+            });
+        }
+    }
+
+    return changes;
+}
+
+function diffSchemaSummary(before: MultiTableSchema, after: MultiTableSchema): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+
+    if (before.domain !== after.domain) {
+        changes.push({
+            kind: 'domain-changed',
+            before: before.domain,
+            after: after.domain,
+            breaking: false,
+            message: `Domain changed from ${before.domain} to ${after.domain}`,
+        });
+    }
+
+    if (before.description !== after.description) {
+        changes.push({
+            kind: 'description-changed',
+            scope: 'schema',
+            target: 'schema',
+            before: before.description,
+            after: after.description,
+            breaking: false,
+            message: 'Schema description changed',
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Compares two generated schemas and classifies every difference as breaking
+ * (consumers of `previous` may fail against `next`) or non-breaking.
+ */
+export function diffSchemas(previous: MultiTableSchema, next: MultiTableSchema): SchemaDiff {
+    const changes: SchemaChange[] = [...diffSchemaSummary(previous, next)];
+
+    for (const [table, previousTable] of Object.entries(previous.tables)) {
+        const nextTable = Object.hasOwn(next.tables, table) ? next.tables[table] : undefined;
+
+        if (!nextTable) {
+            changes.push({
+                kind: 'table-removed',
+                table,
+                breaking: true,
+                message: `Table ${table} was removed`,
+            });
+            continue;
+        }
+
+        changes.push(...diffTable(table, previousTable, nextTable));
+    }
+
+    for (const table of Object.keys(next.tables)) {
+        if (!Object.hasOwn(previous.tables, table)) {
+            changes.push({
+                kind: 'table-added',
+                table,
+                breaking: false,
+                message: `Table ${table} was added`,
+            });
+        }
+    }
+
+    changes.push(...diffRelationships(previous.relationships ?? [], next.relationships ?? []));
+
+    return {
+        changes,
+        breaking: changes.some((change) => change.breaking),
+    };
+}
@@ -1,19 +1,45 @@
-import Anthropic from '@anthropic-ai/sdk';
-import type { ContentBlock, MessageParam } from '@anthropic-ai/sdk/resources/messages';
 import pTimeout, { TimeoutError as PTimeoutError } from 'p-timeout';
+import { buildTableContext, splitFieldBatches } from './batches.js';
+import { type EnrichmentCache, fingerprintStats, stableHash } from './cache.js';
 import { AI_CONFIG, RELATIONSHIP_INDICATORS } from './constants.js';
+import { estimateTokens } from './context.js';
+import {
+    type IncrementalPlan,
+    mergeFieldResponses,
+    planIncrementalEnrichment,
+    previousDomainResponse,
+    previousRelationshipsResponse,
+} from './incremental.js';
 import {
     inferAggregationType,
     inferFieldDescription,
     inferFieldRole,
     inferPersonalDataType,
 } from './inference.js';
+import { describeDataGrain } from './keys.js';
+import { noProgress, type ProgressListener } from './progress.js';
 import {
     buildDomainPrompt,
     buildFieldEnrichmentPrompt,
     buildRelationshipPrompt,
+    buildRepairPrompt,
+    PROMPT_VERSION,
+    type ResponseFormat,
     type TableSummary,
 } from './prompts.js';
+import type {
+    CompletionProvider,
+    CompletionRequest,
+    CompletionResponse,
+    CompletionStage,
+    CompletionTool,
+} from './providers.js';
+import {
+    type ResolvedRetryOptions,
+    type RetryOptions,
+    resolveRetryOptions,
+    withRetry,
+} from './retry.js';
 import type {
     Entity,
     Field,
@@ -25,14 +51,30 @@ import type {
     TableCapabilities,
     TableSchema,
 } from './types.js';
-import { nullLogger, TimeoutError } from './types.js';
-import { countTotalFields, extractJsonFromText, removeUndefinedValues } from './utils.js';
+import { AIValidationError, nullLogger, TimeoutError } from './types.js';
+import { createUsageTracker, estimateRequestTokens, type UsageTracker } from './usage.js';
+import {
+    countTotalFields,
+    extractJsonFromText,
+    mapWithConcurrency,
+    removeUndefinedValues,
+} from './utils.js';
 import {
+    type FieldsResponsePart,
+    mergeDomainParts,
+    mergeFieldsParts,
+    mergeRelationshipsParts,
+    RESPONSE_JSON_SCHEMAS,
+    type SalvagedResponse,
+    salvageDomainResponse,
+    salvageFieldsResponse,
+    salvageRelationshipsResponse,
     type ValidatedDomainResponse,
     type ValidatedFieldsResponse,
     type ValidatedRelationshipsResponse,
     validateDomainResponse,
     validateFieldsResponse,
+    validatePartialDomainResponse,
     validateRelationshipsResponse,
 } from './validation.js';
 
@@ -40,31 +82,82 @@ export interface EnrichOptions {
     readonly model?: string;
     readonly logger?: Logger;
     readonly timeout?: number;
+    /** Field batches sent at once. */
+    readonly concurrency?: number;
+    readonly retry?: RetryOptions;
+    readonly cache?: EnrichmentCache;
+    readonly usage?: UsageTracker;
+    /** Reuse enrichment from this schema for fields whose shape is unchanged. */
+    readonly previousSchema?: MultiTableSchema;
+    /** Aborts in-flight requests and retry waits; `enrich` rejects with `signal.reason`. */
+    readonly signal?: AbortSignal;
+    readonly onProgress?: ProgressListener;
 }
 
 interface ResolvedEnrichOptions {
-    readonly model: string;
+    readonly provider: CompletionProvider;
+    readonly model?: string;
     readonly logger: Logger;
     readonly timeout: number;
+    readonly concurrency: number;
+    readonly retry: ResolvedRetryOptions;
+    readonly responseFormat: ResponseFormat;
+    readonly cache?: EnrichmentCache;
+    readonly fingerprint?: string;
+    readonly usage: UsageTracker;
+    readonly signal?: AbortSignal;
+    readonly onProgress: ProgressListener;
 }
 
-function resolveOptions(options: EnrichOptions): ResolvedEnrichOptions {
+const STAGE_TOOLS: Readonly<Record<CompletionStage, CompletionTool>> = {
+    fields: {
+        name: 'submit_field_enrichment',
+        description: 'Submit the semantic enrichment of every field in the input.',
+        inputSchema: RESPONSE_JSON_SCHEMAS.fields,
+    },
+    relationships: {
+        name: 'submit_relationships',
+        description: 'Submit the foreign key relationships detected between tables.',
+        inputSchema: RESPONSE_JSON_SCHEMAS.relationships,
+    },
+    domain: {
+        name: 'submit_domain',
+        description: 'Submit the domain, entities and table capabilities.',
+        inputSchema: RESPONSE_JSON_SCHEMAS.domain,
+    },
+};
+
+function resolveOptions(
+    stats: StatsMultiTableSchema,
+    provider: CompletionProvider,
+    options: EnrichOptions
+): ResolvedEnrichOptions {
     return {
-        model: options.model ?? AI_CONFIG.defaultModel,
+        provider,
+        ...(options.model !== undefined && { model: options.model }),
         logger: options.logger ?? nullLogger,
         timeout: options.timeout ?? AI_CONFIG.defaultTimeoutMs,
+        concurrency: options.concurrency ?? AI_CONFIG.defaultConcurrency,
+        retry: resolveRetryOptions(options.retry),
+        responseFormat: provider.supportsTools ? 'tool' : 'text',
+        ...(options.cache && { cache: options.cache, fingerprint: fingerprintStats(stats) }),
+        usage: options.usage ?? createUsageTracker(),
+        ...(options.signal && { signal: options.signal }),
+        onProgress: options.onProgress ?? noProgress,
     };
 }
 
 async function withTimeout<T>(
     promise: Promise<T>,
     timeoutMs: number,
-    operationName: string
+    operationName: string,
+    signal: AbortSignal | undefined
 ): Promise<T> {
     try {
         return await pTimeout(promise, {
             milliseconds: timeoutMs,
             message: `${operationName} timed out after ${timeoutMs}ms`,
+            ...(signal && { signal }),
         });
     } catch (error) {
         if (error instanceof PTimeoutError) {
@@ -74,53 +167,228 @@ async function withTimeout<T>(
     }
 }
 
-function extractTextFromContent(content: ContentBlock): string {
-    if (content.type === 'text') {
-        return content.text;
-    }
-    throw new Error('Unexpected response type from AI');
+async function requestCompletion(
+    request: CompletionRequest,
+    options: ResolvedEnrichOptions
+): Promise<CompletionResponse> {
+    const { provider, model, logger, retry, responseFormat, usage, signal, onProgress } = options;
+    const { stage } = request;
+    logger.info(`[${stage}] Starting...`);
+
+    signal?.throwIfAborted();
+    usage.assertWithinBudget(estimateRequestTokens(request), model ?? provider.model);
+    const startedAt = Date.now();
+
+    const response = await withRetry(
+        () =>
+            provider.complete({
+                ...request,
+                ...(model !== undefined && { model }),
+                ...(responseFormat === 'tool' && { tool: STAGE_TOOLS[stage] }),
+                ...(signal && { signal }),
+            }),
+        retry,
+        {
+            logger,
+            label: `[${stage}]`,
+            ...(signal && { signal }),
+            onRetry: (attempt, delayMs, error) =>
+                onProgress({
+                    kind: 'request-retry',
+                    stage,
+                    attempt,
+                    delayMs,
+                    error: error.message,
+                }),
+        }
+    );
+    const endedAt = Date.now();
+    const tokens = usage.recordResponse(request, response, startedAt, endedAt);
+    logger.info(`[${stage}] Completed - ${response.usage?.outputTokens} tokens`);
+    onProgress({ kind: 'request-completed', stage, ...tokens, durationMs: endedAt - startedAt });
+
+    return response;
 }
 
-interface CompletionConfig {
-    model: string;
-    maxTokens: number;
-    temperature: number;
-    messages: MessageParam[];
+function buildStageCacheKey(
+    stage: CompletionStage,
+    options: ResolvedEnrichOptions,
+    fingerprint: string,
+    upstream: unknown
+): string {
+    return stableHash({
+        stage,
+        fingerprint,
+        upstream: upstream === undefined ? null : stableHash(upstream),
+        provider: options.provider.name,
+        model: options.model ?? null,
+        responseFormat: options.responseFormat,
+        promptVersion: PROMPT_VERSION,
+    });
 }
 
-async function streamCompletion(
-    client: Anthropic,
-    config: CompletionConfig,
-    stage: string,
-    logger: Logger
-): Promise<string> {
-    logger.info(`[${stage}] Starting...`);
+interface StageSpec<T, P> {
+    readonly request: CompletionRequest;
+    readonly operationName: string;
+    readonly salvage: (rawResponse: string) => SalvagedResponse<P>;
+    readonly merge: (base: P, update: P) => P;
+    readonly validate: (rawResponse: string) => T;
+    /** Validates what is left after repairs run out; defaults to `validate`. */
+    readonly validatePartial?: (rawResponse: string) => T;
+    /** Issues for items the stage expects but the accepted response lacks. */
+    readonly findMissing?: (accepted: P) => string[];
+    /** Earlier stage output this stage's prompt depends on. */
+    readonly upstream?: unknown;
+}
 
-    const stream = client.messages.stream({
-        model: config.model,
-        max_tokens: config.maxTokens,
-        temperature: config.temperature,
-        messages: config.messages,
-    });
+interface RepairedResponse {
+    readonly rawResponse: string;
+    readonly complete: boolean;
+}
+
+/** Tool-call arguments are already JSON; text is the fallback for providers without tools. */
+function toRawResponse(response: CompletionResponse): string {
+    if (response.toolInput !== undefined) {
+        return JSON.stringify(response.toolInput);
+    }
+
+    try {
+        return extractJsonFromText(response.text);
+    } catch (error) {
+        throw new AIValidationError((error as Error).message, response.text, [
+            'Response does not contain a JSON object',
+        ]);
+    }
+}
+
+/**
+ * Requests a stage response, keeping whatever validates. While items are
+ * invalid or missing and repair attempts remain, the model is shown its reply
+ * and the validation errors and asked for the rest. Once attempts run out, a
+ * partial response is accepted; the missing items fall back to defaults.
+ */
+async function requestRepairedResponse<T, P>(
+    spec: StageSpec<T, P>,
+    options: ResolvedEnrichOptions
+): Promise<RepairedResponse> {
+    const { logger, retry, responseFormat, onProgress } = options;
+    const { stage, messages } = spec.request;
+    let conversation = messages;
+    let accepted: P | undefined;
+
+    for (let attempt = 0; ; attempt++) {
+        const response = await requestCompletion(
+            { ...spec.request, messages: conversation },
+            options
+        );
+        const responseText =
+            response.toolInput === undefined ? response.text : JSON.stringify(response.toolInput);
+        let issues: readonly string[];
+
+        try {
+            const salvaged = spec.salvage(toRawResponse(response));
+            accepted = accepted ? spec.merge(accepted, salvaged.accepted) : salvaged.accepted;
+            issues = [...salvaged.errors, ...(spec.findMissing?.(accepted) ?? [])];
+        } catch (error) {
+            if (
+                !(error instanceof AIValidationError) ||
+                (!accepted && attempt >= retry.repairAttempts)
+            ) {
+                throw error;
+            }
+            issues = error.validationErrors;
+        }
 
-    let chunks = 0;
-    stream.on('text', () => {
-        chunks++;
-        if (chunks % 20 === 0) {
-            logger.debug(`[${stage}] ${chunks} chunks...`);
+        if (accepted && (issues.length === 0 || attempt >= retry.repairAttempts)) {
+            if (issues.length > 0) {
+                logger.warn(`[${stage}] Accepting partial response, ${issues.length} issues left`);
+            }
+            return { rawResponse: JSON.stringify(accepted), complete: issues.length === 0 };
         }
-    });
 
-    const response = await stream.finalMessage();
-    logger.info(`[${stage}] Completed - ${response.usage?.output_tokens} tokens`);
+        logger.warn(
+            `[${stage}] ${issues.length} validation issues - requesting repair (${attempt + 1}/${retry.repairAttempts})`
+        );
+        onProgress({
+            kind: 'response-repair',
+            stage,
+            attempt: attempt + 1,
+            issueCount: issues.length,
+        });
+        conversation = [
+            ...messages,
+            { role: 'assistant', content: responseText },
+            {
+                role: 'user',
+                content: buildRepairPrompt(issues, accepted !== undefined, responseFormat),
+            },
+        ];
+    }
+}
+
+/**
+ * Runs one enrichment stage through the cache, if one is configured. Only a
+ * complete response is cached; a partial one is used once and re-requested
+ * next time.
+ */
+async function runStage<T, P>(spec: StageSpec<T, P>, options: ResolvedEnrichOptions): Promise<T> {
+    const { stage } = spec.request;
+    const { cache, fingerprint, logger, timeout, signal } = options;
+    const cacheKey =
+        cache && fingerprint
+            ? buildStageCacheKey(stage, options, fingerprint, spec.upstream)
+            : undefined;
+    const cached = cacheKey ? await cache?.get(cacheKey) : undefined;
+
+    if (cached !== undefined) {
+        logger.info(`[${stage}] Using cached result`);
+        options.usage.recordCacheHit(stage);
+        options.onProgress({ kind: 'cache-hit', stage });
+        return spec.validate(cached);
+    }
+
+    const { rawResponse, complete } = await withTimeout(
+        requestRepairedResponse(spec, options),
+        timeout,
+        spec.operationName,
+        signal
+    );
+    logger.debug(`[${stage}] Response received`);
 
-    const content = response.content[0];
+    const validated = complete
+        ? spec.validate(rawResponse)
+        : (spec.validatePartial ?? spec.validate)(rawResponse);
 
-    if (!content) {
-        throw new Error('Empty response from AI');
+    if (cacheKey && complete) {
+        await cache?.set(cacheKey, rawResponse);
     }
 
-    return extractTextFromContent(content);
+    return validated;
+}
+
+/** Reports the start of a stage and, once `run` settles successfully, its usage. */
+async function trackStage<T>(
+    stage: CompletionStage,
+    requests: number,
+    options: ResolvedEnrichOptions,
+    run: () => Promise<T>
+): Promise<T> {
+    const { onProgress, usage } = options;
+    onProgress({ kind: 'stage-started', stage, requests });
+
+    const result = await run();
+    const stageUsage = usage.snapshot().stages[stage];
+
+    onProgress({
+        kind: 'stage-completed',
+        stage,
+        requests: stageUsage.requests,
+        inputTokens: stageUsage.inputTokens,
+        outputTokens: stageUsage.outputTokens,
+        durationMs: stageUsage.durationMs,
+    });
+
+    return result;
 }
 
 function buildDefaultCapabilities(fields: readonly Field[]): TableCapabilities {
@@ -139,17 +407,29 @@ function buildDefaultCapabilities(fields: readonly Field[]): TableCapabilities {
     return base;
 }
 
-function buildFieldFromStats(statsField: StatsField): Field {
+function isSingleColumnKey(path: string, primaryKey: readonly string[] | undefined): boolean {
+    return primaryKey?.length === 1 && primaryKey[0] === path;
+}
+
+function buildFieldFromStats(
+    statsField: StatsField,
+    primaryKey: readonly string[] | undefined
+): Field {
     return removeUndefinedValues({
         path: statsField.path,
         type: statsField.type,
         nullable: statsField.nullable,
-        role: inferFieldRole(statsField),
+        role: isSingleColumnKey(statsField.path, primaryKey)
+            ? 'identifier'
+            : inferFieldRole(statsField),
         description: inferFieldDescription(statsField),
         personalData: inferPersonalDataType(statsField),
         aggregation: inferAggregationType(statsField),
         format: statsField.format,
         itemType: statsField.itemType,
+        mixedTypes: statsField.mixedTypes,
+        enumValues: statsField.enumValues,
+        profile: statsField.profile,
     }) as Field;
 }
 
@@ -157,51 +437,149 @@ export function applyDefaults(stats: StatsMultiTableSchema): MultiTableSchema {
     const tables: Record<string, TableSchema> = {};
 
     for (const [tableName, statsTable] of Object.entries(stats.tables)) {
-        const fields: Field[] = statsTable.fields.map(buildFieldFromStats);
+        const fields: Field[] = statsTable.fields.map((statsField) =>
+            buildFieldFromStats(statsField, statsTable.primaryKey)
+        );
 
         tables[tableName] = {
             domain: 'unknown',
             description: `Table containing ${statsTable.fields.length} fields`,
-            dataGrain: 'one row per record',
+            dataGrain: describeDataGrain(statsTable.primaryKey),
+            ...(statsTable.primaryKey && { primaryKey: statsTable.primaryKey }),
             entities: [],
             fields,
             capabilities: buildDefaultCapabilities(fields),
         };
     }
 
-    return {
+    const result: MultiTableSchema = {
         domain: 'unknown',
         description: 'Schema generated without AI enrichment',
         tables,
     };
+
+    if (stats.relationships && stats.relationships.length > 0) {
+        return { ...result, relationships: stats.relationships };
+    }
+
+    return result;
 }
 
-async function enrichFields(
-    client: Anthropic,
-    stats: StatsMultiTableSchema,
-    options: ResolvedEnrichOptions
-): Promise<ValidatedFieldsResponse> {
-    const { logger, timeout, model } = options;
+function findMissingFields(batch: StatsMultiTableSchema, accepted: FieldsResponsePart): string[] {
+    return Object.entries(batch.tables).flatMap(([tableName, table]) =>
+        table.fields
+            .filter((field) => accepted.tables[tableName]?.[field.path] === undefined)
+            .map((field) => `tables.${tableName}.${field.path}: Missing`)
+    );
+}
 
-    const execute = async (): Promise<string> => {
-        const responseText = await streamCompletion(
-            client,
-            {
-                model,
+async function enrichFieldBatch(
+    batch: StatsMultiTableSchema,
+    prompt: string,
+    options: ResolvedEnrichOptions,
+    upstream: unknown
+): Promise<ValidatedFieldsResponse> {
+    return runStage(
+        {
+            request: {
+                stage: 'fields',
                 maxTokens: AI_CONFIG.maxTokens.fieldEnrichment,
                 temperature: AI_CONFIG.temperature,
-                messages: [{ role: 'user', content: buildFieldEnrichmentPrompt(stats) }],
+                messages: [{ role: 'user', content: prompt }],
             },
-            'fields',
-            logger
+            operationName: 'Field enrichment',
+            salvage: salvageFieldsResponse,
+            merge: mergeFieldsParts,
+            validate: validateFieldsResponse,
+            findMissing: (accepted) => findMissingFields(batch, accepted),
+            upstream,
+        },
+        options
+    );
+}
+
+/**
+ * Enriches fields in batches of bounded size, at most `concurrency` at a
+ * time. With more than one batch, every prompt also carries a summary of all
+ * tables so the model sees the whole dataset. The budget is checked against
+ * all batch prompts before the first one is sent.
+ */
+async function enrichFields(
+    stats: StatsMultiTableSchema,
+    options: ResolvedEnrichOptions,
+    upstream?: unknown
+): Promise<ValidatedFieldsResponse> {
+    const { logger, concurrency, responseFormat, usage } = options;
+    const batches = splitFieldBatches(stats);
+    const context = batches.length > 1 ? buildTableContext(stats) : undefined;
+    const prompts = batches.map((batch) =>
+        buildFieldEnrichmentPrompt(batch, context, responseFormat)
+    );
+
+    usage.assertWithinBudget(
+        prompts.reduce((total, prompt) => total + estimateTokens(prompt), 0),
+        options.model ?? options.provider.model
+    );
+
+    const [onlyBatch] = batches;
+    const [onlyPrompt] = prompts;
+
+    return trackStage('fields', batches.length, options, async () => {
+        if (batches.length === 1 && onlyBatch && onlyPrompt !== undefined) {
+            return enrichFieldBatch(onlyBatch, onlyPrompt, options, upstream);
+        }
+
+        logger.info(`[fields] ${batches.length} batches, ${concurrency} at a time`);
+
+        // A batch prompt depends on the other tables through `context`, and an
+        // incremental run on the changed subset in `upstream`.
+        const responses = await mapWithConcurrency(
+            batches,
+            concurrency,
+            (batch, index) =>
+                enrichFieldBatch(batch, prompts[index] ?? '', options, {
+                    batch: fingerprintStats(batch),
+                    context,
+                    upstream,
+                }),
+            options.signal
         );
-        return extractJsonFromText(responseText);
-    };
 
-    const rawResponse = await withTimeout(execute(), timeout, 'Field enrichment');
-    logger.debug('Field enrichment response received');
+        return responses.reduce(mergeFieldResponses, { tables: {} });
+    });
+}
 
-    return validateFieldsResponse(rawResponse);
+/**
+ * Sends only new or changed fields to the model and fills in the rest from
+ * the previous schema.
+ */
+async function enrichChangedFields(
+    plan: IncrementalPlan,
+    options: ResolvedEnrichOptions
+): Promise<ValidatedFieldsResponse> {
+    const changedFieldCount = countTotalFields(plan.changedStats.tables);
+    const reusedFieldCount = Object.values(plan.reusedFields.tables).reduce(
+        (sum, fields) => sum + Object.keys(fields).length,
+        0
+    );
+    options.logger.info(
+        `[fields] Reusing ${reusedFieldCount} unchanged fields, enriching ${changedFieldCount}`
+    );
+
+    if (changedFieldCount === 0) {
+        options.onProgress({ kind: 'stage-skipped', stage: 'fields', reason: 'unchanged' });
+        return plan.reusedFields;
+    }
+
+    // The changed subset is part of the cache key: the same stats can be split
+    // differently against different previous schemas.
+    const changedFields = await enrichFields(
+        plan.changedStats,
+        options,
+        fingerprintStats(plan.changedStats)
+    );
+
+    return mergeFieldResponses(plan.reusedFields, changedFields);
 }
 
 function buildTableSummaries(
@@ -256,7 +634,6 @@ function hasRelationshipPotential(tableSummaries: readonly TableSummary[]): bool
 }
 
 async function detectRelationships(
-    client: Anthropic,
     stats: StatsMultiTableSchema,
     fields: ValidatedFieldsResponse,
     options: ResolvedEnrichOptions
@@ -264,30 +641,41 @@ async function detectRelationships(
     const tableSummaries = buildTableSummaries(stats, fields);
 
     if (!hasRelationshipPotential(tableSummaries)) {
+        options.onProgress({
+            kind: 'stage-skipped',
+            stage: 'relationships',
+            reason: 'no-candidates',
+        });
         return { relationships: [] };
     }
 
-    const { logger, timeout, model } = options;
-
-    const execute = async (): Promise<string> => {
-        const responseText = await streamCompletion(
-            client,
+    return trackStage('relationships', 1, options, () =>
+        runStage(
             {
-                model,
-                maxTokens: AI_CONFIG.maxTokens.relationshipDetection,
-                temperature: AI_CONFIG.temperature,
-                messages: [{ role: 'user', content: buildRelationshipPrompt(tableSummaries) }],
+                request: {
+                    stage: 'relationships',
+                    maxTokens: AI_CONFIG.maxTokens.relationshipDetection,
+                    temperature: AI_CONFIG.temperature,
+                    messages: [
+                        {
+                            role: 'user',
+                            content: buildRelationshipPrompt(
+                                tableSummaries,
+                                stats.relationships ?? [],
+                                options.responseFormat
+                            ),
+                        },
+                    ],
+                },
+                operationName: 'Relationship detection',
+                salvage: salvageRelationshipsResponse,
+                merge: mergeRelationshipsParts,
+                validate: validateRelationshipsResponse,
+                upstream: fields,
             },
-            'relationships',
-            logger
-        );
-        return extractJsonFromText(responseText);
-    };
-
-    const rawResponse = await withTimeout(execute(), timeout, 'Relationship detection');
-    logger.debug('Relationship detection response received');
-
-    return validateRelationshipsResponse(rawResponse);
+            options
+        )
+    );
 }
 
 function calculateDomainSynthesisTokens(stats: StatsMultiTableSchema): number {
@@ -298,33 +686,34 @@ function calculateDomainSynthesisTokens(stats: StatsMultiTableSchema): number {
 }
 
 async function synthesizeDomain(
-    client: Anthropic,
     stats: StatsMultiTableSchema,
     fields: ValidatedFieldsResponse,
     options: ResolvedEnrichOptions
 ): Promise<ValidatedDomainResponse> {
-    const { logger, timeout, model } = options;
-    const maxTokens = calculateDomainSynthesisTokens(stats);
-
-    const execute = async (): Promise<string> => {
-        const responseText = await streamCompletion(
-            client,
+    return trackStage('domain', 1, options, () =>
+        runStage(
             {
-                model,
-                maxTokens,
-                temperature: AI_CONFIG.temperature,
-                messages: [{ role: 'user', content: buildDomainPrompt(stats, fields) }],
+                request: {
+                    stage: 'domain',
+                    maxTokens: calculateDomainSynthesisTokens(stats),
+                    temperature: AI_CONFIG.temperature,
+                    messages: [
+                        {
+                            role: 'user',
+                            content: buildDomainPrompt(stats, fields, options.responseFormat),
+                        },
+                    ],
+                },
+                operationName: 'Domain synthesis',
+                salvage: salvageDomainResponse,
+                merge: mergeDomainParts,
+                validate: validateDomainResponse,
+                validatePartial: validatePartialDomainResponse,
+                upstream: fields,
             },
-            'domain',
-            logger
-        );
-        return extractJsonFromText(responseText);
-    };
-
-    const rawResponse = await withTimeout(execute(), timeout, 'Domain synthesis');
-    logger.debug('Domain synthesis response received');
-
-    return validateDomainResponse(rawResponse);
+            options
+        )
+    );
 }
 
 type EnrichedFieldData = ValidatedFieldsResponse['tables'][string][string];
@@ -344,15 +733,23 @@ function buildEnrichedField(
         format: statsField.format,
         itemType: statsField.itemType,
         unit: enrichedData?.unit,
+        mixedTypes: statsField.mixedTypes,
+        enumValues: statsField.enumValues,
+        profile: statsField.profile,
     }) as Field;
 }
 
-function buildEntity(rawEntity: ValidatedDomainResponse['entities'][number]): Entity {
+function buildEntity(
+    rawEntity: ValidatedDomainResponse['entities'][number],
+    primaryKey: readonly string[] | undefined
+): Entity {
+    const keyField = primaryKey?.length === 1 ? primaryKey[0] : undefined;
+
     return removeUndefinedValues({
         name: rawEntity.name,
         description: rawEntity.description,
         fields: rawEntity.fields,
-        idField: rawEntity.idField,
+        idField: rawEntity.idField ?? keyField,
         nameField: rawEntity.nameField,
     }) as Entity;
 }
@@ -375,6 +772,36 @@ function buildCapabilities(
     }) as TableCapabilities;
 }
 
+function isSameRelationship(relA: Relationship, relB: Relationship): boolean {
+    return (
+        (relA.from === relB.from && relA.to === relB.to) ||
+        (relA.from === relB.to && relA.to === relB.from)
+    );
+}
+
+function mergeRelationships(
+    discovered: readonly Relationship[],
+    aiRelationships: ValidatedRelationshipsResponse['relationships']
+): Relationship[] {
+    const merged: Relationship[] = [...discovered];
+
+    for (const rel of aiRelationships) {
+        const typed: Relationship = {
+            from: rel.from,
+            to: rel.to,
+            type: rel.type,
+            confidence: rel.confidence,
+            description: rel.description,
+        };
+
+        if (!merged.some((existing) => isSameRelationship(existing, typed))) {
+            merged.push(typed);
+        }
+    }
+
+    return merged;
+}
+
 function mergeEnrichmentResults(
     stats: StatsMultiTableSchema,
     fields: ValidatedFieldsResponse,
@@ -389,7 +816,7 @@ function mergeEnrichmentResults(
 
         const tableEntities: Entity[] = (domain.entities ?? [])
             .filter((entity) => entity.table === tableName)
-            .map(buildEntity);
+            .map((entity) => buildEntity(entity, statsTable.primaryKey));
 
         const mergedFields: Field[] = statsTable.fields.map((statsField) => {
             const enriched = enrichedFields[statsField.path];
@@ -400,20 +827,21 @@ function mergeEnrichmentResults(
             domain: domain.domain ?? 'unknown',
             description:
                 tableDomain?.description ?? `Table with ${statsTable.fields.length} fields`,
-            dataGrain: tableDomain?.dataGrain ?? 'one row per record',
+            // A verified key states the grain exactly; the model only fills in keyless tables.
+            dataGrain: statsTable.primaryKey
+                ? describeDataGrain(statsTable.primaryKey)
+                : (tableDomain?.dataGrain ?? describeDataGrain(undefined)),
+            ...(statsTable.primaryKey && { primaryKey: statsTable.primaryKey }),
             entities: tableEntities,
             fields: mergedFields,
             capabilities: buildCapabilities(tableDomain, mergedFields),
         };
     }
 
-    const typedRelationships: Relationship[] = (relationships.relationships ?? []).map((rel) => ({
-        from: rel.from,
-        to: rel.to,
-        type: rel.type,
-        confidence: rel.confidence,
-        description: rel.description,
-    }));
+    const typedRelationships = mergeRelationships(
+        stats.relationships ?? [],
+        relationships.relationships ?? []
+    );
 
     const result: MultiTableSchema = {
         domain: domain.domain ?? 'unknown',
@@ -430,21 +858,37 @@ function mergeEnrichmentResults(
 
 export async function enrich(
     stats: StatsMultiTableSchema,
-    apiKey: string,
+    provider: CompletionProvider,
     options: EnrichOptions = {}
 ): Promise<MultiTableSchema> {
-    const resolvedOptions = resolveOptions(options);
+    const resolvedOptions = resolveOptions(stats, provider, options);
     const { logger } = resolvedOptions;
-
-    const client = new Anthropic({ apiKey });
+    const plan = options.previousSchema
+        ? planIncrementalEnrichment(stats, options.previousSchema)
+        : undefined;
 
     logger.info('Enriching fields...');
-    const fields = await enrichFields(client, stats, resolvedOptions);
+    const fields = plan
+        ? await enrichChangedFields(plan, resolvedOptions)
+        : await enrichFields(stats, resolvedOptions);
+
+    if (plan && options.previousSchema && !plan.structureChanged) {
+        logger.info('Field set unchanged - reusing relationships & domain');
+        for (const stage of ['relationships', 'domain'] as const) {
+            resolvedOptions.onProgress({ kind: 'stage-skipped', stage, reason: 'unchanged' });
+        }
+        return mergeEnrichmentResults(
+            stats,
+            fields,
+            previousRelationshipsResponse(options.previousSchema),
+            previousDomainResponse(options.previousSchema)
+        );
+    }
 
     logger.info('Detecting relationships & synthesizing domain...');
     const [relationships, domain] = await Promise.all([
-        detectRelationships(client, stats, fields, resolvedOptions),
-        synthesizeDomain(client, stats, fields, resolvedOptions),
+        detectRelationships(stats, fields, resolvedOptions),
+        synthesizeDomain(stats, fields, resolvedOptions),
     ]);
 
     return mergeEnrichmentResults(stats, fields, relationships, domain);
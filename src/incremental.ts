@@ -0,0 +1,162 @@
+import type { Field, MultiTableSchema, StatsField, StatsMultiTableSchema } from './types.js';
+import type {
+    ValidatedDomainResponse,
+    ValidatedFieldsResponse,
+    ValidatedRelationshipsResponse,
+} from './validation.js';
+
+type FieldEnrichment = ValidatedFieldsResponse['tables'][string][string];
+
+export interface IncrementalPlan {
+    /** Stats reduced to the fields that are new or changed since the previous schema. */
+    readonly changedStats: StatsMultiTableSchema;
+    /** Enrichment carried over for every unchanged field. */
+    readonly reusedFields: ValidatedFieldsResponse;
+    /** Tables or fields were added or removed, or a field changed type. */
+    readonly structureChanged: boolean;
+}
+
+function isSameShape(statsField: StatsField, previous: Field): boolean {
+    return (
+        statsField.type === previous.type &&
+        statsField.itemType === previous.itemType &&
+        statsField.format === previous.format
+    );
+}
+
+function toFieldEnrichment(field: Field): FieldEnrichment {
+    return {
+        role: field.role,
+        description: field.description,
+        pii: field.personalData ?? false,
+        unit: field.unit,
+        aggregation: field.aggregation ?? 'none',
+    };
+}
+
+function haveSameKeys(keysA: Iterable<string>, keysB: ReadonlySet<string>): boolean {
+    const setA = new Set(keysA);
+    return setA.size === keysB.size && [...setA].every((key) => keysB.has(key));
+}
+
+/**
+ * Splits the fields of `stats` into those whose enrichment can be copied
+ * from `previous` (same path, type, item type and format) and those that
+ * must be sent to the model again.
+ */
+export function planIncrementalEnrichment(
+    stats: StatsMultiTableSchema,
+    previous: MultiTableSchema
+): IncrementalPlan {
+    const changedTables: Record<string, StatsMultiTableSchema['tables'][string]> = {};
+    const reusedTables: Record<string, Record<string, FieldEnrichment>> = {};
+    let structureChanged = !haveSameKeys(
+        Object.keys(stats.tables),
+        new Set(Object.keys(previous.tables))
+    );
+
+    for (const [tableName, statsTable] of Object.entries(stats.tables)) {
+        const previousFields = new Map(
+            (previous.tables[tableName]?.fields ?? []).map((field) => [field.path, field])
+        );
+        const changedFields: StatsField[] = [];
+        const reusedFields: Record<string, FieldEnrichment> = {};
+
+        for (const statsField of statsTable.fields) {
+            const previousField = previousFields.get(statsField.path);
+
+            if (previousField && isSameShape(statsField, previousField)) {
+                reusedFields[statsField.path] = toFieldEnrichment(previousField);
+                continue;
+            }
+
+            changedFields.push(statsField);
+            structureChanged ||= previousField?.type !== statsField.type;
+        }
+
+        if (!haveSameKeys(previousFields.keys(), new Set(statsTable.fields.map((f) => f.path)))) {
+            structureChanged = true;
+        }
+
+        if (changedFields.length > 0) {
+            changedTables[tableName] = { ...statsTable, fields: changedFields };
+        }
+
+        reusedTables[tableName] = reusedFields;
+    }
+
+    return {
+        changedStats: { tables: changedTables },
+        reusedFields: { tables: reusedTables },
+        structureChanged,
+    };
+}
+
+export function mergeFieldResponses(
+    base: ValidatedFieldsResponse,
+    update: ValidatedFieldsResponse
+): ValidatedFieldsResponse {
+    const tables: ValidatedFieldsResponse['tables'] = { ...base.tables };
+
+    for (const [tableName, fields] of Object.entries(update.tables)) {
+        tables[tableName] = { ...tables[tableName], ...fields };
+    }
+
+    return { tables };
+}
+
+/**
+ * Model-suggested relationships from a previous schema. Data-derived ones
+ * carry `containment` and are rediscovered from the current sample instead.
+ */
+export function previousRelationshipsResponse(
+    previous: MultiTableSchema
+): ValidatedRelationshipsResponse {
+    return {
+        relationships: (previous.relationships ?? [])
+            .filter((relationship) => relationship.containment === undefined)
+            .map(({ from, to, type, confidence, description }) => ({
+                from,
+                to,
+                type,
+                confidence,
+                description,
+            })),
+    };
+}
+
+export function previousDomainResponse(previous: MultiTableSchema): ValidatedDomainResponse {
+    const tables: ValidatedDomainResponse['tables'] = {};
+    const entities: ValidatedDomainResponse['entities'] = [];
+
+    for (const [tableName, table] of Object.entries(previous.tables)) {
+        tables[tableName] = {
+            description: table.description,
+            dataGrain: table.dataGrain,
+            capabilities: {
+                timeSeries: table.capabilities.timeSeries,
+                measures: [...table.capabilities.measures],
+                dimensions: [...table.capabilities.dimensions],
+                searchable: [...table.capabilities.searchable],
+            },
+        };
+
+        for (const entity of table.entities) {
+            entities.push({
+                name: entity.name,
+                description: entity.description,
+                idField: entity.idField,
+                nameField: entity.nameField,
+                fields: [...entity.fields],
+                table: tableName,
+            });
+        }
+    }
+
+    return {
+        domain: previous.domain,
+        description: previous.description,
+        entities,
+        tables,
+    };
+}
@@ -1,29 +1,83 @@
-export { analyze, LimitExceededError } from './analyze.js';
+export { analyze, analyzeStream, analyzeWithMetadata, LimitExceededError } from './analyze.js';
+export type { EnrichmentCache, FileCacheOptions, MemoryCacheOptions } from './cache.js';
+export { createFileCache, createMemoryCache, fingerprintStats, stableHash } from './cache.js';
+export type { PromptContextDetail, PromptContextOptions } from './context.js';
+export { estimateTokens, toPromptContext } from './context.js';
+export type { CsvOptions } from './csv.js';
+export { parseCsv, readCsvFiles } from './csv.js';
 export type { DetectedTables } from './detect.js';
+export type { DataDictionaryFormat, DataDictionaryOptions } from './dictionary.js';
+export { renderDataDictionary } from './dictionary.js';
+export type { DescriptionScope, SchemaChange, SchemaChangeKind, SchemaDiff } from './diff.js';
+export { diffSchemas } from './diff.js';
 export type { EnrichOptions } from './enrich.js';
+export type { JSONSchemaDocument, JSONSchemaNode } from './jsonschema.js';
+export { toJSONSchema } from './jsonschema.js';
+export type {
+    ProgressEvent,
+    ProgressEventKind,
+    ProgressListener,
+    StageSkipReason,
+} from './progress.js';
+export type {
+    AnthropicProviderOptions,
+    CompletionMessage,
+    CompletionProvider,
+    CompletionRequest,
+    CompletionResponse,
+    CompletionStage,
+    CompletionTool,
+    CompletionUsage,
+    OpenAICompatibleProviderOptions,
+} from './providers.js';
+export { createAnthropicProvider, createOpenAICompatibleProvider } from './providers.js';
+export type {
+    CompletionFixture,
+    RecordingProviderOptions,
+    ReplayProviderOptions,
+} from './replay.js';
+export {
+    createRecordingProvider,
+    createReplayProvider,
+    FixtureNotFoundError,
+    fixtureKey,
+} from './replay.js';
+export type { RetryOptions } from './retry.js';
 export type { SampleResult } from './sample.js';
-
+export { toCube, toDbtSemanticModels, toLookML } from './semantic.js';
+export type { NestedColumnMode, SQLDialect, SQLOptions } from './sql.js';
+export { toSQL } from './sql.js';
 export type { ComputeStatsOptions } from './stats.js';
-export { computeStats } from './stats.js';
+export { computeStats, computeStreamStats } from './stats.js';
+export type { StreamSource } from './stream.js';
 export type {
     AggregationType,
+    AnalysisResult,
     AnalyzeOptions,
+    CategoricalValue,
+    DateRangeProfile,
     Entity,
     Field,
     FieldFormat,
+    FieldProfile,
     FieldRole,
     FieldType,
+    InvalidInputReason,
+    LengthProfile,
     Logger,
     MultiTableSchema,
+    NumericProfile,
     PersonalDataType,
     Relationship,
     RelationshipType,
     StatsField,
     StatsMultiTableSchema,
     StatsTableSchema,
+    StreamAnalysisResult,
     TableCapabilities,
     TableSchema,
     TimeGranularity,
+    ValueFrequency,
 } from './types.js';
 export {
     AIEnrichmentError,
@@ -34,3 +88,15 @@ export {
     nullLogger,
     TimeoutError,
 } from './types.js';
+export { toTypeScript } from './typescript.js';
+export type { Budget, ModelPrice, PriceTable, RunMetadata, StageUsage } from './usage.js';
+export { BudgetExceededError } from './usage.js';
+export type {
+    TableValidationSummary,
+    ValidateOptions,
+    ValidationReport,
+    Violation,
+    ViolationKind,
+} from './validate.js';
+export { validate } from './validate.js';
+export { toZod, toZodSource } from './zod.js';
@@ -1,4 +1,4 @@
-import { FIELD_ROLE_PATTERNS } from './constants.js';
+import { FIELD_ROLE_PATTERNS, THRESHOLDS } from './constants.js';
 import type { AggregationType, FieldRole, PersonalDataType, StatsField } from './types.js';
 import {
     getLastPathSegment,
@@ -8,6 +8,21 @@ import {
     toReadableFieldName,
 } from './utils.js';
 
+function isFreeText(field: StatsField): boolean {
+    const profile = field.profile;
+
+    if (field.type !== 'string' || !profile?.length) {
+        return false;
+    }
+
+    const distinctRatio = profile.distinctCount / profile.valueCount;
+
+    return (
+        distinctRatio >= THRESHOLDS.freeTextDistinctRatio &&
+        profile.length.max >= THRESHOLDS.freeTextMinLength
+    );
+}
+
 export function inferFieldRole(field: StatsField): FieldRole {
     const lowerPath = field.path.toLowerCase();
 
@@ -40,6 +55,14 @@ export function inferFieldRole(field: StatsField): FieldRole {
         return 'metadata';
     }
 
+    if (field.enumValues) {
+        return 'dimension';
+    }
+
+    if (isFreeText(field)) {
+        return 'text';
+    }
+
     if (pathContainsAny(lowerPath, FIELD_ROLE_PATTERNS.textKeywords)) {
         return 'text';
     }
@@ -0,0 +1,176 @@
+import { buildFieldTree, type FieldNode } from './tree.js';
+import type { Field, FieldType, MultiTableSchema, TableSchema } from './types.js';
+
+export interface JSONSchemaNode {
+    type?: string | string[];
+    format?: string;
+    enum?: unknown[];
+    description?: string;
+    properties?: Record<string, JSONSchemaNode>;
+    items?: JSONSchemaNode;
+    [annotation: `x-${string}`]: unknown;
+}
+
+export interface JSONSchemaDocument extends JSONSchemaNode {
+    $schema: string;
+    title: string;
+}
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const TYPE_KEYWORDS: Readonly<Record<FieldType, string | undefined>> = {
+    string: 'string',
+    number: 'number',
+    int: 'integer',
+    boolean: 'boolean',
+    date: 'string',
+    array: 'array',
+    object: 'object',
+    null: 'null',
+    mixed: undefined,
+};
+
+const FORMAT_KEYWORDS: Readonly<Record<string, string>> = {
+    email: 'email',
+    url: 'uri',
+    uuid: 'uuid',
+    datetime: 'date-time',
+    iso8601: 'date-time',
+    date: 'date',
+    time: 'time',
+    ip: 'ipv4',
+    ipv6: 'ipv6',
+};
+
+function resolveType(node: FieldNode): string | undefined {
+    if (node.field) {
+        return TYPE_KEYWORDS[node.field.type];
+    }
+
+    return node.items ? 'array' : 'object';
+}
+
+function resolveTypeKeyword(
+    node: FieldNode,
+    type: string | undefined
+): string | string[] | undefined {
+    const field = node.field;
+
+    if (field?.type === 'mixed' && field.mixedTypes) {
+        const types = field.mixedTypes.flatMap((mixedType) => TYPE_KEYWORDS[mixedType] ?? []);
+        return field.nullable ? [...new Set([...types, 'null'])] : types;
+    }
+
+    if (!type || !field?.nullable || type === 'null') {
+        return type;
+    }
+
+    return [type, 'null'];
+}
+
+function applyFieldKeywords(target: JSONSchemaNode, field: Field): void {
+    if (field.format) {
+        const formatKeyword = FORMAT_KEYWORDS[field.format];
+
+        if (formatKeyword) {
+            target.format = formatKeyword;
+        } else {
+            target['x-format'] = field.format;
+        }
+    }
+
+    if (field.enumValues) {
+        const values: unknown[] = field.enumValues.map((entry) => entry.value);
+        target.enum = field.nullable ? [...values, null] : values;
+    }
+
+    target.description = field.description;
+    target['x-role'] = field.role;
+
+    if (field.unit) {
+        target['x-unit'] = field.unit;
+    }
+
+    if (field.personalData) {
+        target['x-personal-data'] = field.personalData;
+    }
+}
+
+function buildProperties(node: FieldNode): Record<string, JSONSchemaNode> {
+    const properties: Record<string, JSONSchemaNode> = {};
+
+    for (const [key, child] of node.children) {
+        properties[key] = nodeToSchema(child);
+    }
+
+    return properties;
+}
+
+function buildItems(node: FieldNode): JSONSchemaNode | undefined {
+    if (node.items) {
+        return nodeToSchema(node.items);
+    }
+
+    const itemType = node.field?.itemType;
+    const itemKeyword = itemType ? TYPE_KEYWORDS[itemType] : undefined;
+
+    return itemKeyword ? { type: itemKeyword } : undefined;
+}
+
+function nodeToSchema(node: FieldNode): JSONSchemaNode {
+    const type = resolveType(node);
+    const schemaNode: JSONSchemaNode = {};
+    const typeKeyword = resolveTypeKeyword(node, type);
+
+    if (typeKeyword) {
+        schemaNode.type = typeKeyword;
+    }
+
+    if (node.field) {
+        applyFieldKeywords(schemaNode, node.field);
+    }
+
+    if (type === 'object' && node.children.size > 0) {
+        schemaNode.properties = buildProperties(node);
+    }
+
+    if (type === 'array') {
+        const items = buildItems(node);
+        if (items) {
+            schemaNode.items = items;
+        }
+    }
+
+    return schemaNode;
+}
+
+function tableToJSONSchema(tableName: string, table: TableSchema): JSONSchemaDocument {
+    const document: JSONSchemaDocument = {
+        $schema: JSON_SCHEMA_DIALECT,
+        title: tableName,
+        description: table.description,
+        type: 'object',
+        properties: buildProperties(buildFieldTree(table.fields)),
+    };
+
+    if (table.primaryKey) {
+        document['x-primary-key'] = table.primaryKey;
+    }
+
+    return document;
+}
+
+/**
+ * Converts each table to a standalone JSON Schema (draft 2020-12) document
+ * describing a single row. Semantic enrichment that has no standard keyword
+ * is carried in `x-` annotations.
+ */
+export function toJSONSchema(schema: MultiTableSchema): Record<string, JSONSchemaDocument> {
+    const documents: Record<string, JSONSchemaDocument> = {};
+
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        documents[tableName] = tableToJSONSchema(tableName, table);
+    }
+
+    return documents;
+}
@@ -0,0 +1,205 @@
+import { KEY_INDICATORS, LIMITS } from './constants.js';
+import { inferFieldRole } from './inference.js';
+import type { FieldRole, StatsField } from './types.js';
+import {
+    getLastPathSegment,
+    type PlainObject,
+    pathEndsWithAny,
+    pathMatchesIdentifier,
+} from './utils.js';
+import { walkRow } from './walk.js';
+
+interface KeyColumn {
+    readonly path: string;
+    readonly role: FieldRole;
+    readonly values: readonly (string | undefined)[];
+}
+
+const SINGLE_KEY_ROLES: ReadonlySet<FieldRole> = new Set(['identifier', 'reference', 'dimension']);
+const COMPOSITE_KEY_ROLES: ReadonlySet<FieldRole> = new Set([
+    ...SINGLE_KEY_ROLES,
+    'time',
+    'measure',
+]);
+const KEY_TYPES = new Set(['string', 'int', 'date']);
+const KEY_SEPARATOR = '\u0000';
+
+/** Matches `sku`, `product_sku` and `productSku`: names for values that label single records. */
+export function isIdentifierPath(path: string): boolean {
+    const name = getLastPathSegment(path).replace(/\[\]$/, '');
+    const lowerName = name.toLowerCase();
+
+    return KEY_INDICATORS.identifierNames.some(
+        (identifier) =>
+            lowerName === identifier ||
+            lowerName.endsWith(`_${identifier}`) ||
+            (name.length > identifier.length &&
+                name.endsWith(`${identifier.charAt(0).toUpperCase()}${identifier.slice(1)}`))
+    );
+}
+
+function isKeyCandidate(field: StatsField): boolean {
+    return !field.nullable && !field.path.includes('[]') && KEY_TYPES.has(field.type);
+}
+
+function collectKeyColumns(
+    rows: readonly PlainObject[],
+    fields: readonly StatsField[],
+    maxDepth: number,
+    signal: AbortSignal | undefined
+): KeyColumn[] {
+    const candidates = fields.filter(isKeyCandidate);
+    const valuesByPath = new Map<string, (string | undefined)[]>(
+        candidates.map((field) => [field.path, new Array(rows.length).fill(undefined)])
+    );
+
+    rows.forEach((row, rowIndex) => {
+        if (rowIndex % LIMITS.abortCheckInterval === 0) {
+            signal?.throwIfAborted();
+        }
+        walkRow(
+            row,
+            (path, value) => {
+                const values = valuesByPath.get(path);
+                if (values && value !== null && value !== undefined) {
+                    values[rowIndex] = JSON.stringify(value);
+                }
+            },
+            maxDepth
+        );
+    });
+
+    return candidates
+        .map((field) => ({
+            path: field.path,
+            role: inferFieldRole(field),
+            values: valuesByPath.get(field.path) ?? [],
+        }))
+        .filter((column) => COMPOSITE_KEY_ROLES.has(column.role))
+        .filter((column) => column.role !== 'measure' || isSequenceColumn(column.path))
+        .filter((column) => column.values.every((value) => value !== undefined));
+}
+
+function isSequenceColumn(path: string): boolean {
+    return pathEndsWithAny(path, KEY_INDICATORS.sequenceSuffixes);
+}
+
+function isUniqueCombination(
+    columns: readonly KeyColumn[],
+    rowCount: number,
+    signal: AbortSignal | undefined
+): boolean {
+    const seen = new Set<string>();
+
+    for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
+        if (rowIndex % LIMITS.abortCheckInterval === 0) {
+            signal?.throwIfAborted();
+        }
+
+        const key = columns.map((column) => column.values[rowIndex]).join(KEY_SEPARATOR);
+
+        if (seen.has(key)) {
+            return false;
+        }
+
+        seen.add(key);
+    }
+
+    return true;
+}
+
+function* combinations<T>(items: readonly T[], size: number, start = 0): Generator<T[]> {
+    if (size === 0) {
+        yield [];
+        return;
+    }
+
+    for (let index = start; index <= items.length - size; index++) {
+        const head = items[index] as T;
+
+        for (const tail of combinations(items, size - 1, index + 1)) {
+            yield [head, ...tail];
+        }
+    }
+}
+
+function rankColumn(column: KeyColumn): number {
+    if (pathMatchesIdentifier(column.path)) {
+        return 0;
+    }
+
+    if (column.role === 'identifier' || column.role === 'reference') {
+        return 1;
+    }
+
+    return isSequenceColumn(column.path) ? 1 : 2;
+}
+
+function compareKeys(keyA: readonly KeyColumn[], keyB: readonly KeyColumn[]): number {
+    const rankA = keyA.reduce((total, column) => total + rankColumn(column), 0) / keyA.length;
+    const rankB = keyB.reduce((total, column) => total + rankColumn(column), 0) / keyB.length;
+
+    return keyA.length - keyB.length || rankA - rankB;
+}
+
+/**
+ * Finds minimal column sets that are unique across the sampled rows. Single
+ * columns are tried first; composite keys are only searched when no single
+ * column qualifies. Results are ranked, so the first entry is the best
+ * primary key candidate. The signal is checked every thousand rows of each
+ * scan; the composite search can scan the sample hundreds of times.
+ */
+export function detectCandidateKeys(
+    rows: readonly PlainObject[],
+    fields: readonly StatsField[],
+    maxDepth: number,
+    signal?: AbortSignal
+): string[][] {
+    if (rows.length < 2) {
+        return [];
+    }
+
+    const columns = collectKeyColumns(rows, fields, maxDepth, signal).sort(
+        (columnA, columnB) => rankColumn(columnA) - rankColumn(columnB)
+    );
+
+    const singleKeys = columns
+        .filter((column) => SINGLE_KEY_ROLES.has(column.role))
+        .filter((column) => isUniqueCombination([column], rows.length, signal))
+        .map((column) => [column]);
+
+    if (singleKeys.length > 0) {
+        return singleKeys
+            .slice(0, LIMITS.maxCandidateKeys)
+            .map((key) => key.map((column) => column.path));
+    }
+
+    const compositeColumns = columns.slice(0, LIMITS.maxKeyCandidateColumns);
+
+    for (let size = 2; size <= LIMITS.maxCompositeKeySize; size++) {
+        const keys: KeyColumn[][] = [];
+
+        for (const key of combinations(compositeColumns, size)) {
+            if (isUniqueCombination(key, rows.length, signal)) {
+                keys.push(key);
+            }
+        }
+
+        if (keys.length > 0) {
+            return keys
+                .sort(compareKeys)
+                .slice(0, LIMITS.maxCandidateKeys)
+                .map((key) => key.map((column) => column.path));
+        }
+    }
+
+    return [];
+}
+
+export function describeDataGrain(primaryKey: readonly string[] | undefined): string {
+    if (!primaryKey || primaryKey.length === 0) {
+        return 'one row per record';
+    }
+
+    return `one row per ${primaryKey.join(' and ')}`;
+}
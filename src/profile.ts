@@ -0,0 +1,293 @@
+import _ from 'lodash';
+import { DATE_FORMATS, LIMITS, THRESHOLDS } from './constants.js';
+import type {
+    CategoricalValue,
+    FieldFormat,
+    FieldProfile,
+    FieldType,
+    NumericProfile,
+    StatsField,
+    ValueFrequency,
+} from './types.js';
+
+interface DatePoint {
+    time: number;
+    value: string;
+}
+
+export interface ProfileAccumulator {
+    valueCount: number;
+    numericValues: number[];
+    minLength?: number;
+    maxLength?: number;
+    earliest?: DatePoint;
+    latest?: DatePoint;
+    distinctHashes: number[];
+    frequencies: Map<string, ValueFrequency>;
+    frequenciesTruncated: boolean;
+}
+
+const HASH_SPACE = 2 ** 32;
+const PROFILE_PRECISION = 4;
+
+export function createProfileAccumulator(): ProfileAccumulator {
+    return {
+        valueCount: 0,
+        numericValues: [],
+        distinctHashes: [],
+        frequencies: new Map(),
+        frequenciesTruncated: false,
+    };
+}
+
+function hashString(input: string): number {
+    let hash = 0x811c9dc5;
+
+    for (let index = 0; index < input.length; index++) {
+        hash ^= input.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+
+    return hash >>> 0;
+}
+
+/**
+ * Keeps the k smallest distinct hashes (KMV sketch). Below k entries the
+ * count is exact; above it the k-th smallest hash yields the estimate.
+ */
+function addDistinctHash(hashes: number[], hash: number): void {
+    const capacity = LIMITS.distinctSketchSize;
+    const insertAt = _.sortedIndex(hashes, hash);
+
+    if (hashes[insertAt] === hash) {
+        return;
+    }
+
+    if (hashes.length >= capacity && insertAt >= capacity) {
+        return;
+    }
+
+    hashes.splice(insertAt, 0, hash);
+
+    if (hashes.length > capacity) {
+        hashes.pop();
+    }
+}
+
+function estimateDistinctCount(hashes: readonly number[]): number {
+    const capacity = LIMITS.distinctSketchSize;
+    const kthHash = hashes[capacity - 1];
+
+    if (hashes.length < capacity || kthHash === undefined) {
+        return hashes.length;
+    }
+
+    return Math.round((capacity - 1) / ((kthHash + 1) / HASH_SPACE));
+}
+
+function isCategoricalValue(value: unknown): value is CategoricalValue {
+    return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Counts are exact until the field exceeds the cardinality cap. After that,
+ * already-seen values keep counting but new ones are dropped, so top values
+ * become approximate and the field can no longer qualify as an enum.
+ */
+function trackFrequency(accumulator: ProfileAccumulator, value: CategoricalValue): void {
+    const key = JSON.stringify(value);
+    const existing = accumulator.frequencies.get(key);
+
+    if (existing) {
+        accumulator.frequencies.set(key, { value, count: existing.count + 1 });
+        return;
+    }
+
+    if (accumulator.frequencies.size >= LIMITS.maxTrackedValuesPerField) {
+        accumulator.frequenciesTruncated = true;
+        return;
+    }
+
+    accumulator.frequencies.set(key, { value, count: 1 });
+}
+
+function trackDate(accumulator: ProfileAccumulator, value: string): void {
+    const time = Date.parse(value);
+
+    if (!Number.isFinite(time)) {
+        return;
+    }
+
+    if (!accumulator.earliest || time < accumulator.earliest.time) {
+        accumulator.earliest = { time, value };
+    }
+
+    if (!accumulator.latest || time > accumulator.latest.time) {
+        accumulator.latest = { time, value };
+    }
+}
+
+function trackLength(accumulator: ProfileAccumulator, length: number): void {
+    accumulator.minLength = Math.min(accumulator.minLength ?? length, length);
+    accumulator.maxLength = Math.max(accumulator.maxLength ?? length, length);
+}
+
+export function recordProfileValue(
+    accumulator: ProfileAccumulator,
+    value: unknown,
+    format: FieldFormat | undefined
+): void {
+    accumulator.valueCount++;
+    addDistinctHash(accumulator.distinctHashes, hashString(JSON.stringify(value)));
+
+    if (isCategoricalValue(value)) {
+        trackFrequency(accumulator, value);
+    }
+
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        accumulator.numericValues.push(value);
+        return;
+    }
+
+    if (typeof value === 'string') {
+        trackLength(accumulator, value.length);
+
+        if (format && DATE_FORMATS.has(format)) {
+            trackDate(accumulator, value);
+        }
+    }
+}
+
+function percentile(sortedValues: readonly number[], fraction: number): number {
+    const position = (sortedValues.length - 1) * fraction;
+    const lowerIndex = Math.floor(position);
+    const lower = sortedValues[lowerIndex] ?? 0;
+    const upper = sortedValues[Math.ceil(position)] ?? lower;
+
+    return lower + (upper - lower) * (position - lowerIndex);
+}
+
+function buildNumericProfile(values: readonly number[]): NumericProfile | undefined {
+    if (values.length === 0) {
+        return undefined;
+    }
+
+    const sorted = [...values].sort((valueA, valueB) => valueA - valueB);
+    const mean = _.mean(sorted);
+    const variance = _.sumBy(sorted, (value) => (value - mean) ** 2) / sorted.length;
+
+    return {
+        min: sorted[0] ?? 0,
+        max: sorted[sorted.length - 1] ?? 0,
+        mean: _.round(mean, PROFILE_PRECISION),
+        stddev: _.round(Math.sqrt(variance), PROFILE_PRECISION),
+        p5: _.round(percentile(sorted, 0.05), PROFILE_PRECISION),
+        p50: _.round(percentile(sorted, 0.5), PROFILE_PRECISION),
+        p95: _.round(percentile(sorted, 0.95), PROFILE_PRECISION),
+    };
+}
+
+function sortFrequencies(accumulator: ProfileAccumulator): ValueFrequency[] {
+    return [...accumulator.frequencies.values()].sort(
+        (entryA, entryB) =>
+            entryB.count - entryA.count || String(entryA.value).localeCompare(String(entryB.value))
+    );
+}
+
+export function detectEnumValues(
+    accumulator: ProfileAccumulator,
+    fieldType: FieldType,
+    enumThreshold: number
+): ValueFrequency[] | undefined {
+    if (fieldType !== 'string' || accumulator.frequenciesTruncated) {
+        return undefined;
+    }
+
+    const distinctCount = accumulator.frequencies.size;
+    const averageOccurrences = accumulator.valueCount / Math.max(distinctCount, 1);
+
+    if (
+        distinctCount === 0 ||
+        distinctCount > enumThreshold ||
+        averageOccurrences < THRESHOLDS.enumMinAverageOccurrences
+    ) {
+        return undefined;
+    }
+
+    return sortFrequencies(accumulator);
+}
+
+/** Turns a field detected as an enum back into an open one, keeping its values as top values. */
+export function withoutEnumValues(field: StatsField): StatsField {
+    const { enumValues, ...openField } = field;
+
+    if (!enumValues || !openField.profile) {
+        return openField;
+    }
+
+    const topValues = enumValues.slice(0, LIMITS.maxTopValues);
+
+    return (topValues[0]?.count ?? 0) < 2
+        ? openField
+        : { ...openField, profile: { ...openField.profile, topValues } };
+}
+
+function buildTopValues(
+    accumulator: ProfileAccumulator,
+    fieldType: FieldType
+): ValueFrequency[] | undefined {
+    if (fieldType !== 'string' && fieldType !== 'int') {
+        return undefined;
+    }
+
+    const topValues = sortFrequencies(accumulator).slice(0, LIMITS.maxTopValues);
+
+    if ((topValues[0]?.count ?? 0) < 2) {
+        return undefined;
+    }
+
+    return topValues;
+}
+
+export function buildFieldProfile(
+    accumulator: ProfileAccumulator,
+    fieldType: FieldType,
+    isEnum: boolean
+): FieldProfile | undefined {
+    if (accumulator.valueCount === 0) {
+        return undefined;
+    }
+
+    const topValues = isEnum ? undefined : buildTopValues(accumulator, fieldType);
+
+    const baseProfile: FieldProfile = {
+        valueCount: accumulator.valueCount,
+        distinctCount: estimateDistinctCount(accumulator.distinctHashes),
+        ...(topValues && { topValues }),
+    };
+
+    if (fieldType === 'number' || fieldType === 'int') {
+        const numeric = buildNumericProfile(accumulator.numericValues);
+        return numeric ? { ...baseProfile, numeric } : baseProfile;
+    }
+
+    if (fieldType === 'date' && accumulator.earliest && accumulator.latest) {
+        return {
+            ...baseProfile,
+            dateRange: { earliest: accumulator.earliest.value, latest: accumulator.latest.value },
+        };
+    }
+
+    if (
+        fieldType === 'string' &&
+        accumulator.minLength !== undefined &&
+        accumulator.maxLength !== undefined
+    ) {
+        return {
+            ...baseProfile,
+            length: { min: accumulator.minLength, max: accumulator.maxLength },
+        };
+    }
+
+    return baseProfile;
+}
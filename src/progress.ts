@@ -0,0 +1,52 @@
+import type { CompletionStage } from './providers.js';
+
+interface StageLocation {
+    readonly stage: CompletionStage;
+}
+
+/** `unchanged`: reused from the previous schema. `no-candidates`: nothing to relate. */
+export type StageSkipReason = 'unchanged' | 'no-candidates';
+
+interface TokenCounts {
+    readonly inputTokens: number;
+    readonly outputTokens: number;
+    readonly durationMs: number;
+}
+
+export type ProgressEvent =
+    // `rowCount` is every row in the table; `sampledRowCount` those profiled.
+    // Streamed input only knows its row count once fully read.
+    | { readonly kind: 'stats-started'; readonly table: string; readonly rowCount?: number }
+    | {
+          readonly kind: 'stats-completed';
+          readonly table: string;
+          readonly rowCount: number;
+          readonly sampledRowCount: number;
+          readonly fieldCount: number;
+      }
+    // Planned requests at the start; requests actually sent, repairs included, at the end.
+    | (StageLocation & { readonly kind: 'stage-started'; readonly requests: number })
+    | (StageLocation & {
+          readonly kind: 'stage-completed';
+          readonly requests: number;
+      } & TokenCounts)
+    | (StageLocation & { readonly kind: 'stage-skipped'; readonly reason: StageSkipReason })
+    | (StageLocation & { readonly kind: 'request-completed' } & TokenCounts)
+    | (StageLocation & {
+          readonly kind: 'request-retry';
+          readonly attempt: number;
+          readonly delayMs: number;
+          readonly error: string;
+      })
+    | (StageLocation & {
+          readonly kind: 'response-repair';
+          readonly attempt: number;
+          readonly issueCount: number;
+      })
+    | (StageLocation & { readonly kind: 'cache-hit' });
+
+export type ProgressEventKind = ProgressEvent['kind'];
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+export const noProgress: ProgressListener = () => {};
@@ -1,6 +1,9 @@
-import type { StatsMultiTableSchema } from './types.js';
+import type { Relationship, StatsMultiTableSchema } from './types.js';
 import type { ValidatedFieldsResponse } from './validation.js';
 
+/** Bump when a prompt or its expected response changes; invalidates cached enrichments. */
+export const PROMPT_VERSION = 1;
+
 export interface TableSummary {
     readonly table: string;
     readonly identifiers: readonly string[];
@@ -8,16 +11,72 @@ export interface TableSummary {
     readonly allFields: readonly string[];
 }
 
-export function buildFieldEnrichmentPrompt(stats: StatsMultiTableSchema): string {
+/** `tool`: the answer arrives as tool-call arguments, so JSON formatting rules are left out. */
+export type ResponseFormat = 'text' | 'tool';
+
+const TOOL_INSTRUCTION = 'Call the provided tool once with the result.';
+
+/** Whole-dataset overview sent with every field batch. */
+export interface TableContext {
+    readonly table: string;
+    readonly primaryKey: readonly string[] | null;
+    readonly fieldCount: number;
+    readonly paths: readonly string[];
+}
+
+function buildDatasetContextSection(context: readonly TableContext[] | undefined): string {
+    if (!context) {
+        return '';
+    }
+
+    return `
+<dataset_context>
+The input is one batch of a larger dataset. Every table, its key, and its first field paths:
+${JSON.stringify(context, null, 2)}
+Use this to interpret references and naming. Enrich ONLY the fields in the input below.
+</dataset_context>
+`;
+}
+
+function buildFieldOutputFormat(format: ResponseFormat): string {
+    if (format === 'tool') {
+        return `${TOOL_INSTRUCTION} Include every field.`;
+    }
+
+    return `{
+  "tables": {
+    "tableName": {
+      "exactFieldPath": {
+        "role": "...",
+        "description": "...",
+        "pii": false,
+        "unit": null,
+        "aggregation": "..."
+      }
+    }
+  }
+}
+
+Return ONLY valid JSON. Include every field.`;
+}
+
+export function buildFieldEnrichmentPrompt(
+    stats: StatsMultiTableSchema,
+    context?: readonly TableContext[],
+    format: ResponseFormat = 'text'
+): string {
     return `Analyze dataset fields and provide semantic enrichment.
 
 <rules>
 - Return field paths EXACTLY as provided. Never modify or unescape.
 - Paths like "sepal\\.length" must stay as "sepal\\.length".
-- Base analysis on field names, types, and example values.
+- Base analysis on field names, types, example values, and profile statistics.
+- Use profile ranges (numeric min/max/percentiles, string lengths, date ranges) to infer units and scale.
+- Fields with enumValues hold every allowed value with its count; treat them as categorical dimensions.
+- A low profile.distinctCount relative to profile.valueCount suggests a categorical dimension.
 - When uncertain: role="dimension" for strings, role="measure" for numbers.
 </rules>
-
+${buildDatasetContextSection(context)}
 <input>
 ${JSON.stringify(stats.tables, null, 2)}
 </input>
@@ -60,8 +119,11 @@ aggregation (required):
 {
   "root": {
     "fields": [
-      {"path": "sepal\\.width", "type": "number", "nullable": false, "examples": [3.5, 3.0, 2.9]},
-      {"path": "variety", "type": "string", "nullable": false, "examples": ["Setosa", "Virginica"]}
+      {"path": "sepal\\.width", "type": "number", "nullable": false, "examples": [3.5, 3.0, 2.9],
+       "profile": {"valueCount": 150, "distinctCount": 23, "numeric": {"min": 2, "max": 4.4, "mean": 3.05, "stddev": 0.43, "p5": 2.35, "p50": 3, "p95": 3.8}}},
+      {"path": "variety", "type": "string", "nullable": false, "examples": ["Setosa", "Virginica"],
+       "enumValues": [{"value": "Virginica", "count": 50}, {"value": "Setosa", "count": 50}, {"value": "Versicolor", "count": 50}],
+       "profile": {"valueCount": 150, "distinctCount": 3, "length": {"min": 6, "max": 10}}}
     ]
   }
 }
@@ -99,37 +161,70 @@ aggregation (required):
 </wrong>
 
 <output_format>
-{
-  "tables": {
-    "tableName": {
-      "exactFieldPath": {
-        "role": "...",
-        "description": "...",
-        "pii": false,
-        "unit": null,
-        "aggregation": "..."
-      }
+${buildFieldOutputFormat(format)}
+</output_format>`;
+}
+
+/**
+ * Follow-up turn after a response failed validation. With `partial`, the
+ * valid items were kept and only the listed ones are asked for again.
+ */
+export function buildRepairPrompt(
+    errors: readonly string[],
+    partial: boolean,
+    format: ResponseFormat = 'text'
+): string {
+    const scope = partial
+        ? 'Return ONLY the corrected and missing items listed above, in the same JSON structure. Valid items from your previous response are already saved; do not repeat them.'
+        : 'Return the complete corrected response, in the same JSON structure.';
+    const output = format === 'tool' ? TOOL_INSTRUCTION : 'Return ONLY valid JSON.';
+
+    return `Your previous response failed validation.
+
+<errors>
+${errors.map((error) => `- ${error}`).join('\n')}
+</errors>
+
+${scope}
+${output}`;
+}
+
+function buildRelationshipOutputFormat(format: ResponseFormat): string {
+    if (format === 'tool') {
+        return `${TOOL_INSTRUCTION}
+If no relationships found, call it with an empty list.`;
     }
-  }
+
+    return `{
+  "relationships": [...]
 }
 
-Return ONLY valid JSON. Include every field.
-</output_format>`;
+Return ONLY valid JSON.
+If no relationships found, return {"relationships": []}.`;
 }
 
-export function buildRelationshipPrompt(tableSummaries: readonly TableSummary[]): string {
+export function buildRelationshipPrompt(
+    tableSummaries: readonly TableSummary[],
+    knownRelationships: readonly Relationship[],
+    format: ResponseFormat = 'text'
+): string {
     return `Detect foreign key relationships between tables.
 
 <rules>
 - Use EXACT field paths as provided. Never modify or unescape.
 - Only include relationships with confidence >= 0.6.
 - Format: "tableName.fieldPath" for both from and to.
+- Known relationships were verified from data values. Do not repeat them.
 </rules>
 
 <input>
 ${JSON.stringify(tableSummaries, null, 2)}
 </input>
 
+<known_relationships>
+${JSON.stringify(knownRelationships, null, 2)}
+</known_relationships>
+
 <schema>
 type:
 - "one-to-one" — Each A has exactly one B
@@ -173,22 +268,34 @@ confidence:
 </wrong>
 
 <output_format>
-{
-  "relationships": [...]
+${buildRelationshipOutputFormat(format)}
+</output_format>`;
 }
 
-Return ONLY valid JSON.
-If no relationships found, return {"relationships": []}.
-</output_format>`;
+function buildDomainOutputFormat(format: ResponseFormat): string {
+    if (format === 'tool') {
+        return TOOL_INSTRUCTION;
+    }
+
+    return `{
+  "domain": "...",
+  "description": "...",
+  "entities": [...],
+  "tables": {...}
+}
+
+Return ONLY valid JSON.`;
 }
 
 export function buildDomainPrompt(
     stats: StatsMultiTableSchema,
-    fields: ValidatedFieldsResponse
+    fields: ValidatedFieldsResponse,
+    format: ResponseFormat = 'text'
 ): string {
     const tableViews = Object.entries(stats.tables).map(([tableName, table]) => ({
         name: tableName,
         fieldCount: table.fields.length,
+        primaryKey: table.primaryKey ?? null,
         fields: table.fields.map((field) => ({
             path: field.path,
             type: field.type,
@@ -202,6 +309,7 @@ export function buildDomainPrompt(
 - Use EXACT field paths. Never modify, unescape, or add prefixes.
 - Entity fields are paths only, not "tableName.fieldPath".
 - Capabilities use exact field paths as they appear in input.
+- primaryKey lists the columns verified unique in the data (null if none). Use it for idField and dataGrain.
 </rules>
 
 <input>
@@ -234,7 +342,7 @@ capabilities structure:
 </schema>
 
 <example_input>
-[{"name": "root", "fields": [
+[{"name": "root", "primaryKey": null, "fields": [
   {"path": "sepal\\.length", "type": "number", "role": "measure"},
   {"path": "variety", "type": "string", "role": "dimension"}
 ]}]
@@ -277,13 +385,6 @@ capabilities structure:
 </wrong>
 
 <output_format>
-{
-  "domain": "...",
-  "description": "...",
-  "entities": [...],
-  "tables": {...}
-}
-
-Return ONLY valid JSON.
+${buildDomainOutputFormat(format)}
 </output_format>`;
 }
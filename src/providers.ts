@@ -0,0 +1,274 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AI_CONFIG } from './constants.js';
+import { APIError } from './types.js';
+
+export type CompletionStage = 'fields' | 'relationships' | 'domain';
+
+export interface CompletionMessage {
+    readonly role: 'user' | 'assistant';
+    readonly content: string;
+}
+
+/** A function the model is made to call; its arguments are the structured response. */
+export interface CompletionTool {
+    readonly name: string;
+    readonly description: string;
+    readonly inputSchema: Readonly<Record<string, unknown>>;
+}
+
+export interface CompletionRequest {
+    readonly stage: CompletionStage;
+    readonly model?: string;
+    readonly maxTokens: number;
+    readonly temperature: number;
+    readonly messages: readonly CompletionMessage[];
+    readonly tool?: CompletionTool;
+    /** Cancels the request; the provider rejects with `signal.reason`. */
+    readonly signal?: AbortSignal;
+}
+
+export interface CompletionUsage {
+    readonly inputTokens: number;
+    readonly outputTokens: number;
+}
+
+export interface CompletionResponse {
+    readonly text: string;
+    readonly model: string;
+    readonly usage?: CompletionUsage;
+    /** Arguments of the forced tool call, when the request had a `tool`. */
+    readonly toolInput?: unknown;
+}
+
+/**
+ * Sends a single-turn completion to an LLM. `request.model` overrides the
+ * provider's default model when set. Providers with `supportsTools` force a
+ * call to `request.tool` and return its arguments as `toolInput`; others
+ * ignore the tool and answer in text.
+ */
+export interface CompletionProvider {
+    readonly name: string;
+    /** Model used when a request names none; prices budget estimates. */
+    readonly model?: string;
+    readonly supportsTools?: boolean;
+    complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+export interface AnthropicProviderOptions {
+    readonly apiKey: string;
+    readonly model?: string;
+    readonly baseURL?: string;
+}
+
+export interface OpenAICompatibleProviderOptions {
+    readonly baseURL: string;
+    readonly model: string;
+    readonly apiKey?: string;
+    readonly headers?: Readonly<Record<string, string>>;
+    /** Send `tools` and `tool_choice`. Off by default; not every server implements them. */
+    readonly supportsTools?: boolean;
+}
+
+interface ChatCompletionResponse {
+    model?: string;
+    choices?: {
+        message?: {
+            content?: string | null;
+            tool_calls?: { function?: { arguments?: string } }[];
+        };
+    }[];
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+function parseToolArguments(argumentsText: string | undefined): unknown {
+    if (argumentsText === undefined) {
+        return undefined;
+    }
+
+    try {
+        return JSON.parse(argumentsText);
+    } catch {
+        return undefined;
+    }
+}
+
+function toCompletionResponse(payload: ChatCompletionResponse, model: string): CompletionResponse {
+    const message = payload.choices?.[0]?.message;
+    const toolArguments = message?.tool_calls?.[0]?.function?.arguments;
+    const toolInput = parseToolArguments(toolArguments);
+    // Unparseable arguments go through the text path, which repairs JSON.
+    const text = message?.content || (toolInput === undefined ? toolArguments : '');
+
+    if (!text && toolInput === undefined) {
+        throw new Error('Empty response from AI');
+    }
+
+    return {
+        text: text ?? '',
+        model: payload.model ?? model,
+        ...(toolInput !== undefined && { toolInput }),
+        ...(payload.usage && {
+            usage: {
+                inputTokens: payload.usage.prompt_tokens ?? 0,
+                outputTokens: payload.usage.completion_tokens ?? 0,
+            },
+        }),
+    };
+}
+
+function isRetryableStatus(status: number | undefined): boolean {
+    return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+export function createAnthropicProvider(options: AnthropicProviderOptions): CompletionProvider {
+    // Retries happen in `enrich`, with backoff shared across providers.
+    const client = new Anthropic({
+        apiKey: options.apiKey,
+        maxRetries: 0,
+        ...(options.baseURL && { baseURL: options.baseURL }),
+    });
+    const defaultModel = options.model ?? AI_CONFIG.defaultModel;
+
+    return {
+        name: 'anthropic',
+        model: defaultModel,
+        supportsTools: true,
+        async complete(request) {
+            const model = request.model ?? defaultModel;
+            const { tool } = request;
+
+            try {
+                // Streaming is required by the SDK for large `max_tokens` values.
+                const response = await client.messages
+                    .stream(
+                        {
+                            model,
+                            max_tokens: request.maxTokens,
+                            temperature: request.temperature,
+                            messages: request.messages.map((message) => ({ ...message })),
+                            ...(tool && {
+                                tools: [
+                                    {
+                                        name: tool.name,
+                                        description: tool.description,
+                                        input_schema: {
+                                            ...tool.inputSchema,
+                                            type: 'object' as const,
+                                        },
+                                    },
+                                ],
+                                tool_choice: { type: 'tool' as const, name: tool.name },
+                            }),
+                        },
+                        { signal: request.signal ?? null }
+                    )
+                    .finalMessage();
+
+                const usage = {
+                    inputTokens: response.usage.input_tokens,
+                    outputTokens: response.usage.output_tokens,
+                };
+                const toolUse = response.content.find((block) => block.type === 'tool_use');
+
+                if (toolUse) {
+                    return { text: '', model: response.model, usage, toolInput: toolUse.input };
+                }
+
+                const content = response.content[0];
+
+                if (!content) {
+                    throw new Error('Empty response from AI');
+                }
+
+                if (content.type !== 'text') {
+                    throw new Error('Unexpected response type from AI');
+                }
+
+                return { text: content.text, model: response.model, usage };
+            } catch (error) {
+                request.signal?.throwIfAborted();
+
+                if (error instanceof Anthropic.APIError) {
+                    throw new APIError(
+                        error.message,
+                        error.status,
+                        isRetryableStatus(error.status)
+                    );
+                }
+                throw error;
+            }
+        },
+    };
+}
+
+/**
+ * Adapter for any server that implements the OpenAI chat completions API,
+ * such as vLLM, Ollama or LiteLLM. `baseURL` is the API root, e.g.
+ * `http://localhost:11434/v1`.
+ */
+export function createOpenAICompatibleProvider(
+    options: OpenAICompatibleProviderOptions
+): CompletionProvider {
+    const endpoint = `${options.baseURL.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = {
+        'content-type': 'application/json',
+        ...(options.apiKey && { authorization: `Bearer ${options.apiKey}` }),
+        ...options.headers,
+    };
+
+    return {
+        name: 'openai-compatible',
+        model: options.model,
+        supportsTools: options.supportsTools ?? false,
+        async complete(request) {
+            const model = request.model ?? options.model;
+            const tool = options.supportsTools ? request.tool : undefined;
+
+            let response: Response;
+            try {
+                response = await fetch(endpoint, {
+                    method: 'POST',
+                    headers,
+                    body: JSON.stringify({
+                        model,
+                        max_tokens: request.maxTokens,
+                        temperature: request.temperature,
+                        messages: request.messages,
+                        ...(tool && {
+                            tools: [
+                                {
+                                    type: 'function',
+                                    function: {
+                                        name: tool.name,
+                                        description: tool.description,
+                                        parameters: tool.inputSchema,
+                                    },
+                                },
+                            ],
+                            tool_choice: { type: 'function', function: { name: tool.name } },
+                        }),
+                    }),
+                    signal: request.signal ?? null,
+                });
+            } catch (error) {
+                request.signal?.throwIfAborted();
+                throw new APIError(
+                    `Request to ${endpoint} failed: ${(error as Error).message}`,
+                    undefined,
+                    true
+                );
+            }
+
+            if (!response.ok) {
+                const body = await response.text().catch(() => '');
+                throw new APIError(
+                    `${response.status} ${response.statusText}: ${body.slice(0, 500)}`,
+                    response.status,
+                    isRetryableStatus(response.status)
+                );
+            }
+
+            return toCompletionResponse((await response.json()) as ChatCompletionResponse, model);
+        },
+    };
+}
@@ -0,0 +1,280 @@
+import { RELATIONSHIP_INDICATORS, THRESHOLDS } from './constants.js';
+import { inferFieldRole } from './inference.js';
+import type { Relationship, StatsField, StatsTableSchema } from './types.js';
+import { getLastPathSegment, type PlainObject } from './utils.js';
+import { walkRow } from './walk.js';
+
+interface ColumnValues {
+    readonly distinct: Set<string>;
+    occurrences: number;
+    nullCount: number;
+}
+
+interface KeyColumn {
+    readonly table: string;
+    readonly path: string;
+    readonly values: ColumnValues;
+    readonly roleEligible: boolean;
+}
+
+interface RelationshipCandidate {
+    readonly source: KeyColumn;
+    readonly target: KeyColumn;
+    readonly containment: number;
+    readonly confidence: number;
+}
+
+const SOURCE_ROLES = new Set(['identifier', 'reference', 'dimension']);
+
+function isKeyType(field: StatsField): boolean {
+    return field.type === 'string' || field.type === 'int';
+}
+
+function toKeyValue(value: unknown): string | undefined {
+    if (typeof value === 'string') {
+        return value;
+    }
+
+    if (typeof value === 'number' && Number.isInteger(value)) {
+        return String(value);
+    }
+
+    return undefined;
+}
+
+function collectColumnValues(
+    rows: readonly PlainObject[],
+    paths: ReadonlySet<string>,
+    maxDepth: number
+): Map<string, ColumnValues> {
+    const columns = new Map<string, ColumnValues>();
+
+    for (const path of paths) {
+        columns.set(path, { distinct: new Set(), occurrences: 0, nullCount: 0 });
+    }
+
+    for (const row of rows) {
+        walkRow(
+            row,
+            (path, value) => {
+                const column = columns.get(path);
+                if (!column) {
+                    return;
+                }
+
+                if (value === null || value === undefined) {
+                    column.nullCount++;
+                    return;
+                }
+
+                const keyValue = toKeyValue(value);
+                if (keyValue !== undefined) {
+                    column.distinct.add(keyValue);
+                    column.occurrences++;
+                }
+            },
+            maxDepth
+        );
+    }
+
+    return columns;
+}
+
+function isUnique(values: ColumnValues): boolean {
+    return values.nullCount === 0 && values.distinct.size === values.occurrences;
+}
+
+function isArrayItemPath(path: string): boolean {
+    return path.includes('[]');
+}
+
+function stripForeignKeySuffix(segment: string): string {
+    const suffix = RELATIONSHIP_INDICATORS.foreignKeySuffixes.find(
+        (candidate) => segment.endsWith(candidate) && segment.length > candidate.length
+    );
+
+    return suffix ? segment.slice(0, -suffix.length) : segment;
+}
+
+function singularize(name: string): string {
+    if (name.endsWith('ies')) {
+        return `${name.slice(0, -3)}y`;
+    }
+
+    if (name.endsWith('s') && !name.endsWith('ss')) {
+        return name.slice(0, -1);
+    }
+
+    return name;
+}
+
+function hasNameEvidence(source: KeyColumn, target: KeyColumn): boolean {
+    const segment = getLastPathSegment(source.path).replace(/\[\]$/, '');
+    const referencedName = stripForeignKeySuffix(segment).replace(/[_-]$/, '').toLowerCase();
+
+    if (source.table === target.table) {
+        return RELATIONSHIP_INDICATORS.selfReferencePatterns.some((pattern) =>
+            referencedName.includes(pattern)
+        );
+    }
+
+    const tableName = target.table.toLowerCase();
+    return referencedName === tableName || referencedName === singularize(tableName);
+}
+
+function computeContainment(source: ColumnValues, target: ColumnValues): number {
+    let contained = 0;
+
+    for (const value of source.distinct) {
+        if (target.distinct.has(value)) {
+            contained++;
+        }
+    }
+
+    return contained / source.distinct.size;
+}
+
+function scoreCandidate(source: KeyColumn, target: KeyColumn): RelationshipCandidate | undefined {
+    const nameEvidence = hasNameEvidence(source, target);
+
+    if (source.table === target.table && !nameEvidence) {
+        return undefined;
+    }
+
+    const containment = computeContainment(source.values, target.values);
+
+    if (containment < THRESHOLDS.foreignKeyContainment) {
+        return undefined;
+    }
+
+    const support = Math.min(
+        source.values.distinct.size / THRESHOLDS.foreignKeyFullSupportValues,
+        1
+    );
+    const confidence = containment * (0.6 + 0.25 * support + (nameEvidence ? 0.15 : 0));
+
+    return { source, target, containment, confidence: Math.round(confidence * 100) / 100 };
+}
+
+function toRelationship(candidate: RelationshipCandidate): Relationship {
+    const { source, target, containment, confidence } = candidate;
+    const from = `${source.table}.${source.path}`;
+    const to = `${target.table}.${target.path}`;
+    const distinctCount = source.values.distinct.size;
+    const isOneToOne = !isArrayItemPath(source.path) && isUnique(source.values);
+
+    return {
+        from,
+        to,
+        type: isOneToOne ? 'one-to-one' : 'many-to-one',
+        confidence,
+        containment: Math.round(containment * 1000) / 1000,
+        description: `${Math.round(containment * 100)}% of ${distinctCount} distinct ${from} values match ${to}`,
+    };
+}
+
+function rankTargetPath(field: StatsField): number {
+    if (getLastPathSegment(field.path).toLowerCase() === 'id') {
+        return 0;
+    }
+
+    return field.format === 'uuid' ? 1 : 2;
+}
+
+interface TableKeyColumns {
+    readonly targets: KeyColumn[];
+    readonly sources: KeyColumn[];
+}
+
+function collectTableKeyColumns(
+    table: string,
+    statsTable: StatsTableSchema,
+    rows: readonly PlainObject[],
+    maxDepth: number
+): TableKeyColumns {
+    const keyFields = statsTable.fields.filter(isKeyType);
+    const columns = collectColumnValues(
+        rows,
+        new Set(keyFields.map((field) => field.path)),
+        maxDepth
+    );
+
+    const primaryKeyPath =
+        statsTable.primaryKey?.length === 1 ? statsTable.primaryKey[0] : undefined;
+
+    const targetFields = keyFields
+        .filter((field) => !isArrayItemPath(field.path))
+        .filter((field) => field.path === primaryKeyPath || inferFieldRole(field) === 'identifier')
+        .filter((field) => {
+            const values = columns.get(field.path);
+            return values !== undefined && values.distinct.size > 0 && isUnique(values);
+        })
+        .sort((fieldA, fieldB) => rankTargetPath(fieldA) - rankTargetPath(fieldB));
+
+    const primaryIdentifier = primaryKeyPath ?? targetFields[0]?.path;
+    const toKeyColumn = (field: StatsField): KeyColumn[] => {
+        const values = columns.get(field.path);
+        const roleEligible = SOURCE_ROLES.has(inferFieldRole(field));
+        return values ? [{ table, path: field.path, values, roleEligible }] : [];
+    };
+
+    return {
+        targets: targetFields.flatMap(toKeyColumn),
+        sources: keyFields
+            .filter((field) => field.path !== primaryIdentifier)
+            .flatMap(toKeyColumn)
+            .filter(
+                (column) => column.values.distinct.size >= THRESHOLDS.foreignKeyMinDistinctValues
+            ),
+    };
+}
+
+function findBestTarget(
+    source: KeyColumn,
+    targets: readonly KeyColumn[]
+): RelationshipCandidate | undefined {
+    return targets
+        .filter((target) => target.table !== source.table || target.path !== source.path)
+        .filter((target) => source.roleEligible || hasNameEvidence(source, target))
+        .map((target) => scoreCandidate(source, target))
+        .filter((candidate): candidate is RelationshipCandidate => candidate !== undefined)
+        .sort((candidateA, candidateB) => candidateB.confidence - candidateA.confidence)[0];
+}
+
+/**
+ * Finds inclusion dependencies between sampled tables: a column whose
+ * distinct values are (almost) all present in another table's unique
+ * identifier column is reported as a foreign key.
+ */
+export function discoverRelationships(
+    sampledTables: Readonly<Record<string, readonly PlainObject[]>>,
+    statsTables: Readonly<Record<string, StatsTableSchema>>,
+    maxDepth: number
+): Relationship[] {
+    const targets: KeyColumn[] = [];
+    const sources: KeyColumn[] = [];
+
+    for (const [table, statsTable] of Object.entries(statsTables)) {
+        const columns = collectTableKeyColumns(
+            table,
+            statsTable,
+            sampledTables[table] ?? [],
+            maxDepth
+        );
+
+        targets.push(...columns.targets);
+        sources.push(...columns.sources);
+    }
+
+    const relationships: Relationship[] = [];
+
+    for (const source of sources) {
+        const best = findBestTarget(source, targets);
+
+        if (best && best.confidence >= THRESHOLDS.relationshipConfidence) {
+            relationships.push(toRelationship(best));
+        }
+    }
+
+    return relationships;
+}
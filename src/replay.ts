@@ -0,0 +1,169 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+    CompletionMessage,
+    CompletionProvider,
+    CompletionRequest,
+    CompletionResponse,
+    CompletionStage,
+} from './providers.js';
+
+export interface CompletionFixture {
+    readonly stage: CompletionStage;
+    readonly key: string;
+    readonly recordedAt: string;
+    readonly request: {
+        readonly model?: string;
+        readonly maxTokens: number;
+        readonly temperature: number;
+        readonly messages: readonly CompletionMessage[];
+        readonly tool?: string;
+    };
+    readonly response: CompletionResponse;
+}
+
+export interface RecordingProviderOptions {
+    readonly directory: string;
+}
+
+export interface ReplayProviderOptions {
+    readonly directory: string;
+    /**
+     * When no fixture matches the prompt hash, serve the most recent fixture
+     * recorded for the same stage. Lets edited prompts run against old
+     * responses.
+     */
+    readonly matchStageOnly?: boolean;
+    /**
+     * Set when the fixtures were recorded from a provider with tool support,
+     * so prompts are built the same way and hashes match.
+     */
+    readonly supportsTools?: boolean;
+}
+
+export class FixtureNotFoundError extends Error {
+    public readonly name = 'FixtureNotFoundError' as const;
+
+    constructor(
+        public readonly stage: CompletionStage,
+        public readonly key: string,
+        public readonly directory: string
+    ) {
+        super(`No ${stage} fixture for prompt ${key} in ${directory}`);
+    }
+}
+
+const KEY_LENGTH = 16;
+
+/** Hash of everything that shapes the response except the model name. */
+export function fixtureKey(request: CompletionRequest): string {
+    const payload = JSON.stringify([request.stage, request.messages]);
+    return createHash('sha256').update(payload).digest('hex').slice(0, KEY_LENGTH);
+}
+
+function fixtureFileName(stage: CompletionStage, key: string): string {
+    return `${stage}-${key}.json`;
+}
+
+async function readFixture(path: string): Promise<CompletionFixture | undefined> {
+    try {
+        return JSON.parse(await readFile(path, 'utf-8')) as CompletionFixture;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+async function findLatestStageFixture(
+    directory: string,
+    stage: CompletionStage
+): Promise<CompletionFixture | undefined> {
+    let fileNames: string[];
+
+    try {
+        fileNames = await readdir(directory);
+    } catch {
+        return undefined;
+    }
+
+    const fixtures = await Promise.all(
+        fileNames
+            .filter((fileName) => fileName.startsWith(`${stage}-`) && fileName.endsWith('.json'))
+            .map((fileName) => readFixture(join(directory, fileName)))
+    );
+
+    return fixtures
+        .filter((fixture): fixture is CompletionFixture => fixture !== undefined)
+        .sort((fixtureA, fixtureB) => fixtureB.recordedAt.localeCompare(fixtureA.recordedAt))[0];
+}
+
+/**
+ * Wraps a provider and writes every request and raw response to
+ * `<directory>/<stage>-<key>.json` for later replay.
+ */
+export function createRecordingProvider(
+    provider: CompletionProvider,
+    options: RecordingProviderOptions
+): CompletionProvider {
+    return {
+        name: `recording(${provider.name})`,
+        ...(provider.model !== undefined && { model: provider.model }),
+        ...(provider.supportsTools !== undefined && { supportsTools: provider.supportsTools }),
+        async complete(request) {
+            const response = await provider.complete(request);
+            const key = fixtureKey(request);
+
+            const fixture: CompletionFixture = {
+                stage: request.stage,
+                key,
+                recordedAt: new Date().toISOString(),
+                request: {
+                    ...(request.model !== undefined && { model: request.model }),
+                    maxTokens: request.maxTokens,
+                    temperature: request.temperature,
+                    messages: request.messages,
+                    ...(request.tool && { tool: request.tool.name }),
+                },
+                response,
+            };
+
+            await mkdir(options.directory, { recursive: true });
+            await writeFile(
+                join(options.directory, fixtureFileName(request.stage, key)),
+                `${JSON.stringify(fixture, null, 2)}\n`
+            );
+
+            return response;
+        },
+    };
+}
+
+/**
+ * Serves responses recorded by `createRecordingProvider` without any network
+ * access. Throws `FixtureNotFoundError` for prompts that were never recorded.
+ */
+export function createReplayProvider(options: ReplayProviderOptions): CompletionProvider {
+    const { directory, matchStageOnly = false, supportsTools = false } = options;
+
+    return {
+        name: 'replay',
+        supportsTools,
+        async complete(request) {
+            const key = fixtureKey(request);
+            const fixture =
+                (await readFixture(join(directory, fixtureFileName(request.stage, key)))) ??
+                (matchStageOnly
+                    ? await findLatestStageFixture(directory, request.stage)
+                    : undefined);
+
+            if (!fixture) {
+                throw new FixtureNotFoundError(request.stage, key, directory);
+            }
+
+            return fixture.response;
+        },
+    };
+}
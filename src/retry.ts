@@ -0,0 +1,77 @@
+import { AI_CONFIG } from './constants.js';
+import { APIError, type Logger } from './types.js';
+import { removeUndefinedValues } from './utils.js';
+
+export interface RetryOptions {
+    /** Extra attempts after an `APIError` marked `retryable`. */
+    readonly maxRetries?: number;
+    /** Re-prompts with the validation errors after a response fails validation. */
+    readonly repairAttempts?: number;
+    /** First backoff delay; doubles on every retry. */
+    readonly baseDelayMs?: number;
+    readonly maxDelayMs?: number;
+}
+
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+export interface RetryContext {
+    readonly logger: Logger;
+    /** Log prefix, such as `[fields]`. */
+    readonly label: string;
+    readonly signal?: AbortSignal;
+    readonly onRetry?: (attempt: number, delayMs: number, error: APIError) => void;
+}
+
+export function resolveRetryOptions(options: RetryOptions = {}): ResolvedRetryOptions {
+    return { ...AI_CONFIG.retry, ...removeUndefinedValues(options) };
+}
+
+/** Exponential backoff, capped at `maxDelayMs`, with up to half the delay as jitter. */
+export function backoffDelay(attempt: number, options: ResolvedRetryOptions): number {
+    const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Calls `operation` until it succeeds, throws something other than a
+ * retryable `APIError`, or runs out of retries.
+ */
+export async function withRetry<T>(
+    operation: () => Promise<T>,
+    options: ResolvedRetryOptions,
+    context: RetryContext
+): Promise<T> {
+    const { logger, label, signal, onRetry } = context;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (!(error instanceof APIError && error.retryable) || attempt >= options.maxRetries) {
+                throw error;
+            }
+
+            const delay = backoffDelay(attempt, options);
+            logger.warn(
+                `${label} ${error.message} - retrying in ${delay}ms (${attempt + 1}/${options.maxRetries})`
+            );
+            onRetry?.(attempt + 1, delay, error);
+            await sleep(delay, signal);
+        }
+    }
+}
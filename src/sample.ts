@@ -19,3 +19,37 @@ export function sampleRows<T>(rows: readonly T[], maxRows: number): SampleResult
         sampled: maxRows,
     };
 }
+
+export interface Reservoir<T> {
+    add(row: T): void;
+    result(): SampleResult<T>;
+}
+
+/**
+ * Uniform sample of at most `maxRows` rows from a sequence of unknown length
+ * (Algorithm R). Memory stays bounded by `maxRows`; `total` is exact.
+ */
+export function createReservoir<T>(maxRows: number): Reservoir<T> {
+    const rows: T[] = [];
+    let total = 0;
+
+    return {
+        add(row) {
+            total++;
+
+            if (rows.length < maxRows) {
+                rows.push(row);
+                return;
+            }
+
+            const index = Math.floor(Math.random() * total);
+
+            if (index < maxRows) {
+                rows[index] = row;
+            }
+        },
+        result() {
+            return total > maxRows ? { rows, total, sampled: maxRows } : { rows, total };
+        },
+    };
+}
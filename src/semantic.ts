@@ -0,0 +1,455 @@
+import type {
+    AggregationType,
+    Field,
+    MultiTableSchema,
+    Relationship,
+    TableSchema,
+} from './types.js';
+import { parseFieldPath, toColumnName, toReadableFieldName } from './utils.js';
+import { toYAML, type YAMLValue } from './yaml.js';
+
+type DimensionKind = 'string' | 'number' | 'boolean' | 'time';
+type MeasureAggregation = Exclude<AggregationType, 'none'>;
+
+interface SemanticDimension {
+    readonly name: string;
+    readonly column: string;
+    readonly kind: DimensionKind;
+    readonly description: string;
+    readonly primaryKey: boolean;
+}
+
+interface SemanticMeasure {
+    readonly name: string;
+    readonly column: string;
+    readonly aggregation: MeasureAggregation;
+    readonly description: string;
+}
+
+interface SemanticJoin {
+    readonly table: string;
+    readonly column: string;
+    readonly dimension: string;
+    readonly targetColumn: string;
+    readonly targetDimension: string;
+    readonly oneToOne: boolean;
+}
+
+interface SemanticModel {
+    readonly name: string;
+    readonly table: string;
+    readonly description: string;
+    readonly primaryKey?: string;
+    readonly timeDimension?: string;
+    readonly dimensions: readonly SemanticDimension[];
+    readonly measures: readonly SemanticMeasure[];
+    readonly joins: readonly SemanticJoin[];
+}
+
+interface JoinKey {
+    readonly table: string;
+    readonly field: Field;
+}
+
+const NUMERIC_AGGREGATIONS: ReadonlySet<MeasureAggregation> = new Set(['sum', 'avg']);
+
+const TIME_FRAMES = ['raw', 'date', 'week', 'month', 'quarter', 'year'];
+
+function toIdentifier(name: string): string {
+    const identifier = name.replace(/\W+/g, '_').replace(/^_+|_+$/g, '');
+    return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier || '_';
+}
+
+function isColumnField(field: Field): boolean {
+    return (
+        field.type !== 'array' &&
+        field.type !== 'object' &&
+        !parseFieldPath(field.path).some((segment) => segment.isArray)
+    );
+}
+
+function resolveDimensionKind(field: Field): DimensionKind {
+    switch (field.type) {
+        case 'int':
+        case 'number':
+            return 'number';
+        case 'boolean':
+            return 'boolean';
+        case 'date':
+            return 'time';
+        default:
+            return 'string';
+    }
+}
+
+function resolveAggregation(field: Field): MeasureAggregation | undefined {
+    const aggregation = field.aggregation ?? 'sum';
+    const isNumeric = field.type === 'int' || field.type === 'number';
+
+    if (aggregation === 'none' || (NUMERIC_AGGREGATIONS.has(aggregation) && !isNumeric)) {
+        return undefined;
+    }
+
+    return aggregation;
+}
+
+function resolveEndpoint(
+    endpoint: string,
+    schema: MultiTableSchema
+): { table: string; field: Field } | undefined {
+    const table = Object.keys(schema.tables)
+        .filter((name) => endpoint.startsWith(`${name}.`))
+        .sort((nameA, nameB) => nameB.length - nameA.length)[0];
+
+    const path = table ? endpoint.slice(table.length + 1) : undefined;
+    const field = table && schema.tables[table]?.fields.find((entry) => entry.path === path);
+
+    return table && field && isColumnField(field) ? { table, field } : undefined;
+}
+
+/**
+ * Orients each relationship so the referencing side comes first, the way
+ * every semantic layer declares joins.
+ */
+function collectJoinKeys(
+    schema: MultiTableSchema
+): { source: JoinKey; target: JoinKey; oneToOne: boolean }[] {
+    return (schema.relationships ?? []).flatMap((relationship: Relationship) => {
+        if (relationship.type === 'many-to-many') {
+            return [];
+        }
+
+        const [referencing, referenced] =
+            relationship.type === 'one-to-many'
+                ? [relationship.to, relationship.from]
+                : [relationship.from, relationship.to];
+
+        const source = resolveEndpoint(referencing, schema);
+        const target = resolveEndpoint(referenced, schema);
+
+        return source && target
+            ? [{ source, target, oneToOne: relationship.type === 'one-to-one' }]
+            : [];
+    });
+}
+
+function buildDimension(field: Field, primaryKeyPath: string | undefined): SemanticDimension {
+    const column = toColumnName(field.path);
+
+    return {
+        name: toIdentifier(column),
+        column,
+        kind: resolveDimensionKind(field),
+        description: field.description,
+        primaryKey: field.path === primaryKeyPath,
+    };
+}
+
+function buildMeasure(field: Field): SemanticMeasure[] {
+    const aggregation = resolveAggregation(field);
+
+    if (!aggregation) {
+        return [];
+    }
+
+    const column = toColumnName(field.path);
+
+    return [
+        {
+            name: toIdentifier(`${column}_${aggregation}`),
+            column,
+            aggregation,
+            description: field.description,
+        },
+    ];
+}
+
+function buildSemanticModel(
+    tableName: string,
+    table: TableSchema,
+    joins: readonly SemanticJoin[],
+    joinPaths: ReadonlySet<string>
+): SemanticModel {
+    const { capabilities } = table;
+    const primaryKeyPath = table.primaryKey?.length === 1 ? table.primaryKey[0] : undefined;
+    const dimensionPaths = new Set([
+        ...(primaryKeyPath ? [primaryKeyPath] : []),
+        ...joinPaths,
+        ...capabilities.dimensions,
+        ...(capabilities.timeSeries ? [capabilities.timeSeries] : []),
+    ]);
+    const measurePaths = new Set(capabilities.measures);
+
+    const columnFields = table.fields.filter(isColumnField);
+    const dimensions = columnFields
+        .filter((field) => dimensionPaths.has(field.path))
+        .map((field) => buildDimension(field, primaryKeyPath));
+    const measures = columnFields
+        .filter((field) => measurePaths.has(field.path))
+        .flatMap(buildMeasure);
+
+    return {
+        name: toIdentifier(tableName),
+        table: tableName,
+        description: table.description,
+        ...(primaryKeyPath && { primaryKey: toColumnName(primaryKeyPath) }),
+        ...(capabilities.timeSeries && {
+            timeDimension: toIdentifier(toColumnName(capabilities.timeSeries)),
+        }),
+        dimensions,
+        measures,
+        joins,
+    };
+}
+
+function buildSemanticModels(schema: MultiTableSchema): SemanticModel[] {
+    const joinKeys = collectJoinKeys(schema);
+
+    return Object.entries(schema.tables).map(([tableName, table]) => {
+        const joinPaths = new Set<string>();
+        const joins: SemanticJoin[] = [];
+
+        for (const { source, target, oneToOne } of joinKeys) {
+            if (source.table === tableName) {
+                const column = toColumnName(source.field.path);
+                const targetColumn = toColumnName(target.field.path);
+
+                joinPaths.add(source.field.path);
+                joins.push({
+                    table: toIdentifier(target.table),
+                    column,
+                    dimension: toIdentifier(column),
+                    targetColumn,
+                    targetDimension: toIdentifier(targetColumn),
+                    oneToOne,
+                });
+            }
+
+            if (target.table === tableName) {
+                joinPaths.add(target.field.path);
+            }
+        }
+
+        return buildSemanticModel(tableName, table, joins, joinPaths);
+    });
+}
+
+const CUBE_MEASURE_TYPES: Readonly<Record<MeasureAggregation, string>> = {
+    sum: 'sum',
+    avg: 'avg',
+    count: 'count',
+    min: 'min',
+    max: 'max',
+};
+
+function toCubeDefinition(model: SemanticModel): YAMLValue {
+    return {
+        name: model.name,
+        sql_table: model.table,
+        description: model.description,
+        joins: model.joins.map((join) => ({
+            name: join.table,
+            sql: `{CUBE}.${join.column} = {${join.table}}.${join.targetColumn}`,
+            relationship: join.oneToOne ? 'one_to_one' : 'many_to_one',
+        })),
+        dimensions: model.dimensions.map((dimension) => ({
+            name: dimension.name,
+            sql: dimension.column,
+            type: dimension.kind,
+            description: dimension.description,
+            primary_key: dimension.primaryKey || undefined,
+        })),
+        measures: [
+            { name: 'count', type: 'count' },
+            ...model.measures.map((measure) => ({
+                name: measure.name,
+                sql: measure.column,
+                type: CUBE_MEASURE_TYPES[measure.aggregation],
+                description: measure.description,
+            })),
+        ],
+    };
+}
+
+/**
+ * Emits a Cube data model (YAML) with one cube per table. Dimensions and
+ * measures come from `TableCapabilities`; joins come from relationships.
+ */
+export function toCube(schema: MultiTableSchema): string {
+    return toYAML({ cubes: buildSemanticModels(schema).map(toCubeDefinition) });
+}
+
+const LOOKML_DIMENSION_TYPES: Readonly<Record<Exclude<DimensionKind, 'time'>, string>> = {
+    string: 'string',
+    number: 'number',
+    boolean: 'yesno',
+};
+
+const LOOKML_MEASURE_TYPES: Readonly<Record<Exclude<MeasureAggregation, 'count'>, string>> = {
+    sum: 'sum',
+    avg: 'average',
+    min: 'min',
+    max: 'max',
+};
+
+function quoteLookMLString(value: string): string {
+    return JSON.stringify(value.replace(/\s*\n\s*/g, ' '));
+}
+
+function renderLookMLBlock(kind: string, name: string, body: readonly string[]): string[] {
+    return [`  ${kind}: ${name} {`, ...body.map((line) => `    ${line}`), '  }'];
+}
+
+function renderLookMLDimension(dimension: SemanticDimension): string[] {
+    const sql = `sql: \${TABLE}.${dimension.column} ;;`;
+    const description = `description: ${quoteLookMLString(dimension.description)}`;
+
+    if (dimension.kind === 'time') {
+        return renderLookMLBlock('dimension_group', dimension.name, [
+            'type: time',
+            `timeframes: [${TIME_FRAMES.join(', ')}]`,
+            sql,
+            description,
+        ]);
+    }
+
+    return renderLookMLBlock('dimension', dimension.name, [
+        ...(dimension.primaryKey ? ['primary_key: yes'] : []),
+        `type: ${LOOKML_DIMENSION_TYPES[dimension.kind]}`,
+        sql,
+        description,
+    ]);
+}
+
+function renderLookMLMeasure(measure: SemanticMeasure): string[] {
+    const column = `\${TABLE}.${measure.column}`;
+
+    // LookML `count` cannot take a column, so non-null counts are plain SQL.
+    const typeAndSql =
+        measure.aggregation === 'count'
+            ? ['type: number', `sql: COUNT(${column}) ;;`]
+            : [`type: ${LOOKML_MEASURE_TYPES[measure.aggregation]}`, `sql: ${column} ;;`];
+
+    return renderLookMLBlock('measure', measure.name, [
+        ...typeAndSql,
+        `description: ${quoteLookMLString(measure.description)}`,
+    ]);
+}
+
+function renderLookMLView(model: SemanticModel): string {
+    return [
+        `# ${model.description.replace(/\s*\n\s*/g, ' ')}`,
+        `view: ${model.name} {`,
+        `  sql_table_name: ${model.table} ;;`,
+        '',
+        ...model.dimensions.flatMap(renderLookMLDimension),
+        ...renderLookMLBlock('measure', 'count', ['type: count']),
+        ...model.measures.flatMap(renderLookMLMeasure),
+        '}',
+    ].join('\n');
+}
+
+function renderLookMLExplore(model: SemanticModel): string {
+    const joins = model.joins.flatMap((join) =>
+        renderLookMLBlock('join', join.table, [
+            'type: left_outer',
+            `relationship: ${join.oneToOne ? 'one_to_one' : 'many_to_one'}`,
+            `sql_on: \${${model.name}.${join.dimension}} = \${${join.table}.${join.targetDimension}} ;;`,
+        ])
+    );
+
+    return [`explore: ${model.name} {`, ...joins, '}'].join('\n');
+}
+
+/**
+ * Emits LookML: a view per table plus an explore per table that joins the
+ * tables it references.
+ */
+export function toLookML(schema: MultiTableSchema): string {
+    const models = buildSemanticModels(schema);
+
+    return `${[...models.map(renderLookMLView), ...models.map(renderLookMLExplore)].join('\n\n')}\n`;
+}
+
+const DBT_AGGREGATIONS: Readonly<Record<MeasureAggregation, string>> = {
+    sum: 'sum',
+    avg: 'average',
+    count: 'count',
+    min: 'min',
+    max: 'max',
+};
+
+function toDbtEntities(model: SemanticModel): YAMLValue[] {
+    const entities: YAMLValue[] = model.primaryKey
+        ? [{ name: model.name, type: 'primary', expr: model.primaryKey }]
+        : [];
+
+    for (const join of model.joins) {
+        entities.push({
+            name: join.table === model.name ? join.dimension : join.table,
+            type: 'foreign',
+            expr: join.column,
+        });
+    }
+
+    return entities;
+}
+
+function toDbtDimension(dimension: SemanticDimension): YAMLValue {
+    return {
+        name: dimension.name,
+        type: dimension.kind === 'time' ? 'time' : 'categorical',
+        expr: dimension.column,
+        description: dimension.description,
+        type_params: dimension.kind === 'time' ? { time_granularity: 'day' } : undefined,
+    };
+}
+
+function toDbtSemanticModel(model: SemanticModel): YAMLValue {
+    return {
+        name: model.name,
+        description: model.description,
+        model: `ref('${model.table}')`,
+        defaults: model.timeDimension ? { agg_time_dimension: model.timeDimension } : undefined,
+        entities: toDbtEntities(model),
+        dimensions: model.dimensions
+            .filter((dimension) => !dimension.primaryKey)
+            .map(toDbtDimension),
+        measures: [
+            { name: `${model.name}_count`, agg: 'count', expr: '1' },
+            ...model.measures.map((measure) => ({
+                name: `${model.name}_${measure.name}`,
+                agg: DBT_AGGREGATIONS[measure.aggregation],
+                expr: measure.column,
+                description: measure.description,
+            })),
+        ],
+    };
+}
+
+function toDbtMetrics(model: SemanticModel): YAMLValue[] {
+    const measureNames = [
+        `${model.name}_count`,
+        ...model.measures.map((measure) => `${model.name}_${measure.name}`),
+    ];
+
+    return measureNames.map((name) => ({
+        name,
+        label: toReadableFieldName(name),
+        type: 'simple',
+        type_params: { measure: name },
+    }));
+}
+
+/**
+ * Emits dbt `semantic_models` and simple `metrics` (YAML). Foreign entities
+ * are named after the referenced table so dbt can join on them.
+ */
+export function toDbtSemanticModels(schema: MultiTableSchema): string {
+    const models = buildSemanticModels(schema);
+
+    return toYAML({
+        semantic_models: models.map(toDbtSemanticModel),
+        metrics: models.flatMap(toDbtMetrics),
+    });
+}
@@ -0,0 +1,453 @@
+import type { Field, MultiTableSchema, Relationship, TableSchema } from './types.js';
+import { parseFieldPath, toColumnName } from './utils.js';
+
+export type SQLDialect = 'postgres' | 'mysql' | 'sqlite';
+
+export type NestedColumnMode = 'flatten' | 'json';
+
+export interface SQLOptions {
+    readonly dialect: SQLDialect;
+    readonly nested?: NestedColumnMode;
+}
+
+type ColumnKind =
+    | 'text'
+    | 'key'
+    | 'uuid'
+    | 'integer'
+    | 'float'
+    | 'boolean'
+    | 'date'
+    | 'time'
+    | 'timestamp'
+    | 'json';
+
+interface Column {
+    readonly name: string;
+    readonly field: Field;
+    readonly asJson: boolean;
+}
+
+interface TableDefinition {
+    readonly name: string;
+    readonly table: TableSchema;
+    readonly columns: readonly Column[];
+    readonly columnsByPath: ReadonlyMap<string, Column>;
+    readonly primaryKey: readonly string[];
+}
+
+interface ForeignKey {
+    readonly table: string;
+    readonly column: string;
+    readonly referencedTable: string;
+    readonly referencedColumn: string;
+}
+
+const COLUMN_TYPES: Readonly<Record<SQLDialect, Readonly<Record<ColumnKind, string>>>> = {
+    postgres: {
+        text: 'TEXT',
+        key: 'TEXT',
+        uuid: 'UUID',
+        integer: 'BIGINT',
+        float: 'DOUBLE PRECISION',
+        boolean: 'BOOLEAN',
+        date: 'DATE',
+        time: 'TIME',
+        timestamp: 'TIMESTAMPTZ',
+        json: 'JSONB',
+    },
+    mysql: {
+        text: 'TEXT',
+        key: 'VARCHAR(255)',
+        uuid: 'CHAR(36)',
+        integer: 'BIGINT',
+        float: 'DOUBLE',
+        boolean: 'BOOLEAN',
+        date: 'DATE',
+        time: 'TIME',
+        timestamp: 'DATETIME',
+        json: 'JSON',
+    },
+    sqlite: {
+        text: 'TEXT',
+        key: 'TEXT',
+        uuid: 'TEXT',
+        integer: 'INTEGER',
+        float: 'REAL',
+        boolean: 'INTEGER',
+        date: 'TEXT',
+        time: 'TEXT',
+        timestamp: 'TEXT',
+        json: 'TEXT',
+    },
+};
+
+const MAX_IDENTIFIER_LENGTH = 63;
+const INDENT = '    ';
+
+function quoteIdentifier(name: string, dialect: SQLDialect): string {
+    return dialect === 'mysql'
+        ? `\`${name.replace(/`/g, '``')}\``
+        : `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string, dialect: SQLDialect): string {
+    const escaped = dialect === 'mysql' ? value.replace(/\\/g, '\\\\') : value;
+    return `'${escaped.replace(/'/g, "''")}'`;
+}
+
+function toLineComment(text: string): string {
+    return `-- ${text.replace(/\s*\n\s*/g, ' ')}`;
+}
+
+function resolveColumnKind(column: Column, isKey: boolean): ColumnKind {
+    const { field } = column;
+
+    if (column.asJson) {
+        return 'json';
+    }
+
+    switch (field.type) {
+        case 'int':
+            return 'integer';
+        case 'number':
+            return 'float';
+        case 'boolean':
+            return 'boolean';
+        case 'date':
+            if (field.format === 'date') {
+                return 'date';
+            }
+            return field.format === 'time' ? 'time' : 'timestamp';
+        case 'string':
+            if (field.format === 'uuid') {
+                return 'uuid';
+            }
+            return isKey ? 'key' : 'text';
+        default:
+            return 'text';
+    }
+}
+
+function isNestedContainer(field: Field, fields: readonly Field[]): boolean {
+    return (
+        field.type === 'object' &&
+        fields.some((candidate) => candidate.path.startsWith(`${field.path}.`))
+    );
+}
+
+function selectColumnFields(fields: readonly Field[], nested: NestedColumnMode): Field[] {
+    return fields.filter((field) => {
+        const segments = parseFieldPath(field.path);
+
+        if (segments.some((segment) => segment.isArray)) {
+            return false;
+        }
+
+        if (nested === 'json') {
+            return segments.length === 1;
+        }
+
+        return !isNestedContainer(field, fields);
+    });
+}
+
+function buildColumns(table: TableSchema, nested: NestedColumnMode): Column[] {
+    const usedNames = new Set<string>();
+
+    return selectColumnFields(table.fields, nested).map((field) => {
+        const baseName = toColumnName(field.path);
+        let name = baseName;
+
+        for (let suffix = 2; usedNames.has(name); suffix++) {
+            name = `${baseName}_${suffix}`;
+        }
+
+        usedNames.add(name);
+
+        return {
+            name,
+            field,
+            asJson: field.type === 'array' || field.type === 'object',
+        };
+    });
+}
+
+function resolvePrimaryKey(
+    table: TableSchema,
+    columnsByPath: ReadonlyMap<string, Column>
+): string[] {
+    const idField = table.entities.find((entity) => entity.idField)?.idField;
+    const keyPaths = table.primaryKey ?? (idField ? [idField] : []);
+    const columns = keyPaths.map((path) => columnsByPath.get(path));
+
+    if (columns.some((column) => !column || column.asJson)) {
+        return [];
+    }
+
+    return columns.map((column) => (column as Column).name);
+}
+
+function buildTableDefinition(
+    name: string,
+    table: TableSchema,
+    nested: NestedColumnMode
+): TableDefinition {
+    const columns = buildColumns(table, nested);
+    const columnsByPath = new Map(columns.map((column) => [column.field.path, column]));
+
+    return {
+        name,
+        table,
+        columns,
+        columnsByPath,
+        primaryKey: resolvePrimaryKey(table, columnsByPath),
+    };
+}
+
+function resolveEndpoint(
+    endpoint: string,
+    definitions: ReadonlyMap<string, TableDefinition>
+): { definition: TableDefinition; column: Column } | undefined {
+    const tableName = [...definitions.keys()]
+        .filter((name) => endpoint.startsWith(`${name}.`))
+        .sort((nameA, nameB) => nameB.length - nameA.length)[0];
+
+    const definition = tableName ? definitions.get(tableName) : undefined;
+    const column = definition?.columnsByPath.get(endpoint.slice((tableName?.length ?? 0) + 1));
+
+    return definition && column && !column.asJson ? { definition, column } : undefined;
+}
+
+function toForeignKey(
+    relationship: Relationship,
+    definitions: ReadonlyMap<string, TableDefinition>
+): ForeignKey | undefined {
+    if (relationship.type === 'many-to-many') {
+        return undefined;
+    }
+
+    const [referencing, referenced] =
+        relationship.type === 'one-to-many'
+            ? [relationship.to, relationship.from]
+            : [relationship.from, relationship.to];
+
+    const source = resolveEndpoint(referencing, definitions);
+    const target = resolveEndpoint(referenced, definitions);
+
+    if (
+        !source ||
+        !target ||
+        resolveColumnKind(source.column, true) !== resolveColumnKind(target.column, true)
+    ) {
+        return undefined;
+    }
+
+    return {
+        table: source.definition.name,
+        column: source.column.name,
+        referencedTable: target.definition.name,
+        referencedColumn: target.column.name,
+    };
+}
+
+function collectForeignKeys(
+    relationships: readonly Relationship[],
+    definitions: ReadonlyMap<string, TableDefinition>
+): ForeignKey[] {
+    const seen = new Set<string>();
+
+    return relationships.flatMap((relationship) => {
+        const foreignKey = toForeignKey(relationship, definitions);
+        const key = foreignKey && `${foreignKey.table}\u0000${foreignKey.column}`;
+
+        if (!foreignKey || !key || seen.has(key)) {
+            return [];
+        }
+
+        seen.add(key);
+        return [foreignKey];
+    });
+}
+
+function collectReferencedColumns(
+    foreignKeys: readonly ForeignKey[],
+    definitions: ReadonlyMap<string, TableDefinition>
+): Set<string> {
+    const referenced = new Set<string>();
+
+    for (const foreignKey of foreignKeys) {
+        const primaryKey = definitions.get(foreignKey.referencedTable)?.primaryKey ?? [];
+        const isPrimaryKey =
+            primaryKey.length === 1 && primaryKey[0] === foreignKey.referencedColumn;
+
+        if (!isPrimaryKey) {
+            referenced.add(`${foreignKey.referencedTable}\u0000${foreignKey.referencedColumn}`);
+        }
+    }
+
+    return referenced;
+}
+
+function constraintName(foreignKey: ForeignKey): string {
+    return `fk_${foreignKey.table}_${foreignKey.column}`
+        .replace(/\W+/g, '_')
+        .slice(0, MAX_IDENTIFIER_LENGTH);
+}
+
+function renderForeignKeyClause(foreignKey: ForeignKey, dialect: SQLDialect): string {
+    const quote = (name: string) => quoteIdentifier(name, dialect);
+
+    return `FOREIGN KEY (${quote(foreignKey.column)}) REFERENCES ${quote(foreignKey.referencedTable)} (${quote(foreignKey.referencedColumn)})`;
+}
+
+interface RenderContext {
+    readonly dialect: SQLDialect;
+    readonly foreignKeys: readonly ForeignKey[];
+    readonly uniqueColumns: ReadonlySet<string>;
+}
+
+function renderColumn(definition: TableDefinition, column: Column, context: RenderContext): string {
+    const { dialect } = context;
+    const isPrimaryKey = definition.primaryKey.includes(column.name);
+    const isKey =
+        isPrimaryKey ||
+        context.foreignKeys.some(
+            (foreignKey) =>
+                (foreignKey.table === definition.name && foreignKey.column === column.name) ||
+                (foreignKey.referencedTable === definition.name &&
+                    foreignKey.referencedColumn === column.name)
+        );
+
+    const parts = [
+        quoteIdentifier(column.name, dialect),
+        COLUMN_TYPES[dialect][resolveColumnKind(column, isKey)],
+    ];
+
+    // Rows may leave any other key out, so only verified key columns are required.
+    if (isPrimaryKey) {
+        parts.push('NOT NULL');
+    }
+
+    if (context.uniqueColumns.has(`${definition.name}\u0000${column.name}`)) {
+        parts.push('UNIQUE');
+    }
+
+    if (dialect === 'mysql' && column.field.description) {
+        parts.push(`COMMENT ${quoteLiteral(column.field.description, dialect)}`);
+    }
+
+    return parts.join(' ');
+}
+
+function renderTableBody(definition: TableDefinition, context: RenderContext): string[] {
+    const { dialect } = context;
+    const entries = definition.columns.map((column) => ({
+        text: renderColumn(definition, column, context),
+        comment: dialect === 'sqlite' ? column.field.description : undefined,
+    }));
+
+    if (definition.primaryKey.length > 0) {
+        const keyColumns = definition.primaryKey.map((name) => quoteIdentifier(name, dialect));
+        entries.push({ text: `PRIMARY KEY (${keyColumns.join(', ')})`, comment: undefined });
+    }
+
+    if (dialect === 'sqlite') {
+        for (const foreignKey of context.foreignKeys) {
+            if (foreignKey.table === definition.name) {
+                entries.push({
+                    text: renderForeignKeyClause(foreignKey, dialect),
+                    comment: undefined,
+                });
+            }
+        }
+    }
+
+    return entries.map((entry, index) => {
+        const separator = index < entries.length - 1 ? ',' : '';
+        const comment = entry.comment ? ` ${toLineComment(entry.comment)}` : '';
+        return `${INDENT}${entry.text}${separator}${comment}`;
+    });
+}
+
+function renderPostgresComments(definition: TableDefinition): string[] {
+    const tableName = quoteIdentifier(definition.name, 'postgres');
+    const statements = [
+        `COMMENT ON TABLE ${tableName} IS ${quoteLiteral(definition.table.description, 'postgres')};`,
+    ];
+
+    for (const column of definition.columns) {
+        if (column.field.description) {
+            statements.push(
+                `COMMENT ON COLUMN ${tableName}.${quoteIdentifier(column.name, 'postgres')} IS ${quoteLiteral(column.field.description, 'postgres')};`
+            );
+        }
+    }
+
+    return statements;
+}
+
+function renderTable(definition: TableDefinition, context: RenderContext): string {
+    const { dialect } = context;
+    const lines: string[] = [];
+
+    if (dialect === 'sqlite' && definition.table.description) {
+        lines.push(toLineComment(definition.table.description));
+    }
+
+    const tableComment =
+        dialect === 'mysql' && definition.table.description
+            ? ` COMMENT=${quoteLiteral(definition.table.description, dialect)}`
+            : '';
+
+    lines.push(
+        `CREATE TABLE ${quoteIdentifier(definition.name, dialect)} (`,
+        ...renderTableBody(definition, context),
+        `)${tableComment};`
+    );
+
+    if (dialect === 'postgres') {
+        lines.push(...renderPostgresComments(definition));
+    }
+
+    return lines.join('\n');
+}
+
+function renderAlterForeignKey(foreignKey: ForeignKey, dialect: SQLDialect): string {
+    return `ALTER TABLE ${quoteIdentifier(foreignKey.table, dialect)} ADD CONSTRAINT ${quoteIdentifier(constraintName(foreignKey), dialect)} ${renderForeignKeyClause(foreignKey, dialect)};`;
+}
+
+/**
+ * Emits `CREATE TABLE` DDL for every table. Nested objects are flattened into
+ * `parent_child` columns by default, or kept as JSON columns with
+ * `nested: 'json'`; arrays are always JSON. Relationships whose endpoints are
+ * plain columns become foreign keys.
+ */
+export function toSQL(schema: MultiTableSchema, options: SQLOptions): string {
+    const { dialect, nested = 'flatten' } = options;
+    const definitions = new Map(
+        Object.entries(schema.tables).map(([name, table]) => [
+            name,
+            buildTableDefinition(name, table, nested),
+        ])
+    );
+
+    const foreignKeys = collectForeignKeys(schema.relationships ?? [], definitions);
+    const context: RenderContext = {
+        dialect,
+        foreignKeys,
+        uniqueColumns: collectReferencedColumns(foreignKeys, definitions),
+    };
+
+    const statements = [...definitions.values()].map((definition) =>
+        renderTable(definition, context)
+    );
+
+    if (dialect !== 'sqlite' && foreignKeys.length > 0) {
+        statements.push(
+            foreignKeys.map((foreignKey) => renderAlterForeignKey(foreignKey, dialect)).join('\n')
+        );
+    }
+
+    return `${statements.join('\n\n')}\n`;
+}
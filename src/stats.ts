@@ -1,20 +1,30 @@
 import { inferType } from '@jsonhero/json-infer-types';
 import { DATE_FORMATS, FORMAT_MAPPING, LIMITS, THRESHOLDS, TYPE_MAPPING } from './constants.js';
 import { detect } from './detect.js';
-import { sampleRows } from './sample.js';
+import { detectCandidateKeys, isIdentifierPath } from './keys.js';
+import {
+    buildFieldProfile,
+    createProfileAccumulator,
+    detectEnumValues,
+    type ProfileAccumulator,
+    recordProfileValue,
+    withoutEnumValues,
+} from './profile.js';
+import { noProgress, type ProgressListener } from './progress.js';
+import { discoverRelationships } from './relationships.js';
+import { createReservoir, type SampleResult, sampleRows } from './sample.js';
+import { readRows, type StreamSource } from './stream.js';
 import type {
     FieldFormat,
     FieldType,
+    Relationship,
     StatsField,
     StatsMultiTableSchema,
     StatsTableSchema,
 } from './types.js';
-import {
-    buildArrayFieldPath,
-    buildFieldPath,
-    escapePathSegment,
-    type PlainObject,
-} from './utils.js';
+import { InvalidInputError } from './types.js';
+import type { PlainObject } from './utils.js';
+import { type FieldVisitor, walkRow } from './walk.js';
 
 type InferredType = ReturnType<typeof inferType>;
 
@@ -25,11 +35,13 @@ interface FieldAccumulator {
     nullCount: number;
     totalCount: number;
     firstArrayItemType?: FieldType;
+    profile: ProfileAccumulator;
 }
 
 interface FieldBuildOptions {
     formatThreshold: number;
     mixedTypeThreshold: number;
+    enumThreshold: number;
 }
 
 export interface ComputeStatsOptions {
@@ -37,13 +49,17 @@ export interface ComputeStatsOptions {
     maxDepth?: number;
     formatThreshold?: number;
     mixedTypeThreshold?: number;
+    enumThreshold?: number;
+    /** Checked between tables and every thousand rows; stats are computed synchronously. */
+    signal?: AbortSignal;
+    onProgress?: ProgressListener;
 }
 
-function mapToFieldType(inferred: InferredType): FieldType {
+export function mapToFieldType(inferred: InferredType): FieldType {
     return (TYPE_MAPPING[inferred.name] as FieldType) ?? 'string';
 }
 
-function extractFieldFormat(inferred: InferredType): FieldFormat | undefined {
+export function extractFieldFormat(inferred: InferredType): FieldFormat | undefined {
     if (inferred.name !== 'string' || !('format' in inferred)) {
         return undefined;
     }
@@ -65,6 +81,7 @@ function createAccumulator(): FieldAccumulator {
         formatCounts: new Map(),
         nullCount: 0,
         totalCount: 0,
+        profile: createProfileAccumulator(),
     };
 }
 
@@ -90,43 +107,34 @@ function incrementFormatCount(accumulator: FieldAccumulator, format: FieldFormat
     accumulator.formatCounts.set(format, currentCount + 1);
 }
 
-function processArrayItems(
-    arrayItems: unknown[],
+function getAccumulator(
     accumulators: Map<string, FieldAccumulator>,
-    basePath: string,
-    parentAccumulator: FieldAccumulator,
-    currentDepth: number,
-    maxDepth: number
-): void {
-    for (const item of arrayItems) {
-        if (item === null || item === undefined) {
-            continue;
-        }
+    path: string
+): FieldAccumulator {
+    let accumulator = accumulators.get(path);
+    if (!accumulator) {
+        accumulator = createAccumulator();
+        accumulators.set(path, accumulator);
+    }
+    return accumulator;
+}
 
-        if (parentAccumulator.firstArrayItemType === undefined) {
-            const inferred = inferType(item);
-            parentAccumulator.firstArrayItemType = mapToFieldType(inferred);
-        }
+function trackArrayItemType(accumulator: FieldAccumulator, arrayItems: readonly unknown[]): void {
+    if (accumulator.firstArrayItemType !== undefined) {
+        return;
+    }
 
-        if (typeof item === 'object' && !Array.isArray(item)) {
-            collectFieldsFromObject(
-                item as PlainObject,
-                accumulators,
-                basePath.split('.'),
-                currentDepth,
-                maxDepth
-            );
-        }
+    const firstItem = arrayItems.find((item) => item !== null && item !== undefined);
+
+    if (firstItem !== undefined) {
+        accumulator.firstArrayItemType = mapToFieldType(inferType(firstItem));
     }
 }
 
 function processFieldValue(
     value: unknown,
     accumulator: FieldAccumulator,
-    accumulators: Map<string, FieldAccumulator>,
-    pathSegments: readonly string[],
-    currentDepth: number,
-    maxDepth: number
+    canDescend: boolean
 ): void {
     const inferred = inferType(value);
     const fieldType = mapToFieldType(inferred);
@@ -139,65 +147,37 @@ function processFieldValue(
     }
 
     addExample(accumulator, value);
+    recordProfileValue(accumulator.profile, value, format);
 
-    if (currentDepth >= maxDepth) {
-        return;
-    }
-
-    if (fieldType === 'object' && typeof value === 'object' && value !== null) {
-        collectFieldsFromObject(
-            value as PlainObject,
-            accumulators,
-            pathSegments,
-            currentDepth + 1,
-            maxDepth
-        );
-    }
-
-    if (fieldType === 'array' && Array.isArray(value)) {
-        const pathString = buildFieldPath(pathSegments);
-        const arrayPath = buildArrayFieldPath(pathString);
-
-        processArrayItems(value, accumulators, arrayPath, accumulator, currentDepth + 1, maxDepth);
+    if (canDescend && fieldType === 'array' && Array.isArray(value)) {
+        trackArrayItemType(accumulator, value);
     }
 }
 
-function collectFieldsFromObject(
-    sourceObject: PlainObject,
+function collectFieldsFromRows(
+    rows: readonly PlainObject[],
     accumulators: Map<string, FieldAccumulator>,
-    pathSegments: readonly string[],
-    currentDepth: number,
-    maxDepth: number
+    maxDepth: number,
+    signal: AbortSignal | undefined
 ): void {
-    for (const [key, value] of Object.entries(sourceObject)) {
-        const escapedKey = escapePathSegment(key);
-        const currentPath = [...pathSegments, escapedKey];
-        const pathString = buildFieldPath(currentPath);
-
-        let accumulator = accumulators.get(pathString);
-        if (!accumulator) {
-            accumulator = createAccumulator();
-            accumulators.set(pathString, accumulator);
-        }
+    const visit: FieldVisitor = (path, value, depth) => {
+        const accumulator = getAccumulator(accumulators, path);
 
         accumulator.totalCount++;
 
         if (value === null || value === undefined) {
             accumulator.nullCount++;
-            continue;
+            return;
         }
 
-        processFieldValue(value, accumulator, accumulators, currentPath, currentDepth, maxDepth);
-    }
-}
+        processFieldValue(value, accumulator, depth < maxDepth);
+    };
 
-function collectFieldsFromRows(
-    rows: readonly PlainObject[],
-    accumulators: Map<string, FieldAccumulator>,
-    maxDepth: number
-): void {
-    for (const row of rows) {
-        collectFieldsFromObject(row, accumulators, [], 0, maxDepth);
+    for (const [rowIndex, row] of rows.entries()) {
+        if (rowIndex % LIMITS.abortCheckInterval === 0) {
+            signal?.throwIfAborted();
+        }
+        walkRow(row, visit, maxDepth);
     }
 }
 
@@ -279,6 +259,14 @@ function determineDominantFormat(
     return undefined;
 }
 
+function collectMixedTypes(typeCounts: Map<FieldType, number>): FieldType[] {
+    const normalizedTypes = [...typeCounts.keys()].map((fieldType) =>
+        fieldType === 'int' ? 'number' : fieldType
+    );
+
+    return [...new Set(normalizedTypes)].sort();
+}
+
 function buildStatsField(
     path: string,
     accumulator: FieldAccumulator,
@@ -298,11 +286,19 @@ function buildStatsField(
         fieldType = 'date';
     }
 
+    const enumValues = isIdentifierPath(path)
+        ? undefined
+        : detectEnumValues(accumulator.profile, fieldType, options.enumThreshold);
+    const profile = buildFieldProfile(accumulator.profile, fieldType, enumValues !== undefined);
+
     const baseField: StatsField = {
         path,
         type: fieldType,
         nullable: accumulator.nullCount > 0,
         examples: Array.from(accumulator.examples.values()),
+        ...(fieldType === 'mixed' && { mixedTypes: collectMixedTypes(accumulator.typeCounts) }),
+        ...(enumValues && { enumValues }),
+        ...(profile && { profile }),
     };
 
     if (format) {
@@ -316,41 +312,188 @@ function buildStatsField(
     return baseField;
 }
 
-export function computeStats(
-    input: unknown,
-    options: ComputeStatsOptions = {}
-): StatsMultiTableSchema {
+interface ResolvedStatsOptions extends FieldBuildOptions {
+    maxRows: number;
+    maxDepth: number;
+    signal: AbortSignal | undefined;
+    onProgress: ProgressListener;
+}
+
+function resolveStatsOptions(options: ComputeStatsOptions): ResolvedStatsOptions {
     const {
         maxRows = LIMITS.maxRowsToSample,
         maxDepth = LIMITS.maxTraversalDepth,
         formatThreshold = THRESHOLDS.formatDetection,
         mixedTypeThreshold = THRESHOLDS.mixedType,
+        enumThreshold = THRESHOLDS.enumCardinality,
+        signal,
+        onProgress = noProgress,
     } = options;
 
-    const detected = detect(input);
-    const tables: Record<string, StatsTableSchema> = {};
-
-    const buildOptions: FieldBuildOptions = {
+    return {
+        maxRows,
+        maxDepth,
         formatThreshold,
         mixedTypeThreshold,
+        enumThreshold,
+        signal,
+        onProgress,
     };
+}
+
+function buildTableStats(
+    tableName: string,
+    sampleResult: SampleResult<PlainObject>,
+    options: ResolvedStatsOptions
+): StatsTableSchema {
+    const accumulators = new Map<string, FieldAccumulator>();
+
+    collectFieldsFromRows(sampleResult.rows, accumulators, options.maxDepth, options.signal);
+
+    const sortedFields: StatsField[] = [];
+
+    for (const [path, accumulator] of accumulators) {
+        sortedFields.push(buildStatsField(path, accumulator, options));
+    }
+
+    sortedFields.sort((fieldA, fieldB) => fieldA.path.localeCompare(fieldB.path));
+
+    const candidateKeys = detectCandidateKeys(
+        sampleResult.rows,
+        sortedFields,
+        options.maxDepth,
+        options.signal
+    );
+    const primaryKey = candidateKeys[0];
+    // A key names one row each, so its values are not a closed set of categories.
+    const keyPaths = new Set(candidateKeys.flat());
+    const fields = sortedFields.map((field) =>
+        keyPaths.has(field.path) ? withoutEnumValues(field) : field
+    );
+
+    options.onProgress({
+        kind: 'stats-completed',
+        table: tableName,
+        rowCount: sampleResult.total,
+        sampledRowCount: sampleResult.rows.length,
+        fieldCount: fields.length,
+    });
+
+    return primaryKey ? { fields, primaryKey, candidateKeys } : { fields };
+}
+
+/** Columns that join tables hold identifiers, however few distinct values the sample has. */
+function withoutRelationshipEnums(
+    tables: Record<string, StatsTableSchema>,
+    relationships: readonly Relationship[]
+): Record<string, StatsTableSchema> {
+    const joinedColumns = new Set(relationships.flatMap(({ from, to }) => [from, to]));
+
+    return Object.fromEntries(
+        Object.entries(tables).map(([tableName, table]) => [
+            tableName,
+            {
+                ...table,
+                fields: table.fields.map((field) =>
+                    joinedColumns.has(`${tableName}.${field.path}`)
+                        ? withoutEnumValues(field)
+                        : field
+                ),
+            },
+        ])
+    );
+}
+
+function withRelationships(
+    tables: Record<string, StatsTableSchema>,
+    sampledTables: Record<string, readonly PlainObject[]>,
+    maxDepth: number
+): StatsMultiTableSchema {
+    const relationships = discoverRelationships(sampledTables, tables, maxDepth);
+
+    if (relationships.length > 0) {
+        return { tables: withoutRelationshipEnums(tables, relationships), relationships };
+    }
+
+    return { tables };
+}
+
+export function computeStats(
+    input: unknown,
+    options: ComputeStatsOptions = {}
+): StatsMultiTableSchema {
+    const resolved = resolveStatsOptions(options);
+    const { maxRows, signal, onProgress } = resolved;
+
+    const detected = detect(input);
+    const tables: Record<string, StatsTableSchema> = {};
+    const sampledTables: Record<string, readonly PlainObject[]> = {};
 
     for (const [tableName, rows] of Object.entries(detected.tables)) {
+        signal?.throwIfAborted();
+        onProgress({ kind: 'stats-started', table: tableName, rowCount: rows.length });
+
         const sampleResult = sampleRows(rows as PlainObject[], maxRows);
-        const accumulators = new Map<string, FieldAccumulator>();
+        sampledTables[tableName] = sampleResult.rows;
+        tables[tableName] = buildTableStats(tableName, sampleResult, resolved);
+    }
 
-        collectFieldsFromRows(sampleResult.rows, accumulators, maxDepth);
+    signal?.throwIfAborted();
 
-        const fields: StatsField[] = [];
+    return withRelationships(tables, sampledTables, resolved.maxDepth);
+}
 
-        for (const [path, accumulator] of accumulators) {
-            fields.push(buildStatsField(path, accumulator, buildOptions));
-        }
+export interface StreamStats {
+    readonly stats: StatsMultiTableSchema;
+    /** Every row read from the source. */
+    readonly rowCount: number;
+    /** Rows kept by the reservoir and profiled. */
+    readonly sampledRowCount: number;
+}
 
-        fields.sort((fieldA, fieldB) => fieldA.path.localeCompare(fieldB.path));
+/**
+ * Computes stats for a single `root` table read row by row from `source`.
+ * At most `maxRows` rows are held in memory, chosen by reservoir sampling;
+ * the row count reported in progress events is exact. The signal is checked
+ * between rows.
+ */
+export async function computeStreamStats(
+    source: StreamSource,
+    options: ComputeStatsOptions = {}
+): Promise<StatsMultiTableSchema> {
+    const { stats } = await readStreamStats(source, options);
+    return stats;
+}
 
-        tables[tableName] = { fields };
+/** `computeStreamStats` with the row counts, which the stats alone don't carry. */
+export async function readStreamStats(
+    source: StreamSource,
+    options: ComputeStatsOptions = {}
+): Promise<StreamStats> {
+    const resolved = resolveStatsOptions(options);
+    const { maxRows, signal, onProgress } = resolved;
+    const tableName = 'root';
+    const reservoir = createReservoir<PlainObject>(maxRows);
+
+    signal?.throwIfAborted();
+    onProgress({ kind: 'stats-started', table: tableName });
+
+    for await (const row of readRows(source)) {
+        signal?.throwIfAborted();
+        reservoir.add(row);
     }
 
-    return { tables };
+    const sampleResult = reservoir.result();
+
+    if (sampleResult.total === 0) {
+        throw new InvalidInputError('empty');
+    }
+
+    const tables = { [tableName]: buildTableStats(tableName, sampleResult, resolved) };
+
+    return {
+        stats: withRelationships(tables, { [tableName]: sampleResult.rows }, resolved.maxDepth),
+        rowCount: sampleResult.total,
+        sampledRowCount: sampleResult.rows.length,
+    };
 }
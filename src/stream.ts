@@ -0,0 +1,82 @@
+import { createReadStream } from 'node:fs';
+import type { Readable } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+import _ from 'lodash';
+import { InvalidInputError } from './types.js';
+import type { PlainObject } from './utils.js';
+
+/** Rows as objects, a stream of NDJSON text, or the path of an NDJSON file. */
+export type StreamSource = AsyncIterable<object> | Readable | string;
+
+function toRow(value: unknown, position: string): PlainObject {
+    if (!_.isPlainObject(value)) {
+        throw new InvalidInputError('malformed', `${position} is not an object`);
+    }
+
+    return value as PlainObject;
+}
+
+function parseLine(line: string, lineNumber: number): PlainObject | undefined {
+    if (line.trim() === '') {
+        return undefined;
+    }
+
+    let value: unknown;
+    try {
+        value = JSON.parse(line);
+    } catch (error) {
+        throw new InvalidInputError('malformed', `line ${lineNumber}: ${(error as Error).message}`);
+    }
+
+    return toRow(value, `line ${lineNumber}`);
+}
+
+async function* readChunks(source: AsyncIterable<unknown>): AsyncGenerator<PlainObject> {
+    const decoder = new StringDecoder('utf8');
+    let pending = '';
+    let lineNumber = 0;
+    let itemIndex = 0;
+
+    for await (const chunk of source) {
+        if (typeof chunk !== 'string' && !(chunk instanceof Uint8Array)) {
+            yield toRow(chunk, `item ${itemIndex++}`);
+            continue;
+        }
+
+        const lines = (pending + (typeof chunk === 'string' ? chunk : decoder.write(chunk))).split(
+            '\n'
+        );
+        pending = lines.pop() ?? '';
+
+        for (const line of lines) {
+            const row = parseLine(line, ++lineNumber);
+            if (row) {
+                yield row;
+            }
+        }
+    }
+
+    const row = parseLine(pending + decoder.end(), ++lineNumber);
+    if (row) {
+        yield row;
+    }
+}
+
+/**
+ * Yields the rows of `source` one at a time. String and byte chunks are read
+ * as NDJSON text, one object per line, skipping blank lines; any other chunk
+ * is a row. A file opened from a path is closed when iteration stops early.
+ */
+export async function* readRows(source: StreamSource): AsyncGenerator<PlainObject> {
+    if (typeof source !== 'string') {
+        yield* readChunks(source);
+        return;
+    }
+
+    const file = createReadStream(source);
+    try {
+        yield* readChunks(file);
+    } finally {
+        file.destroy();
+    }
+}
@@ -0,0 +1,55 @@
+import type { Field } from './types.js';
+import { parseFieldPath } from './utils.js';
+
+export interface FieldNode {
+    readonly key: string;
+    field?: Field;
+    readonly children: Map<string, FieldNode>;
+    items?: FieldNode;
+}
+
+function createNode(key: string): FieldNode {
+    return { key, children: new Map() };
+}
+
+function getChild(node: FieldNode, key: string): FieldNode {
+    let child = node.children.get(key);
+    if (!child) {
+        child = createNode(key);
+        node.children.set(key, child);
+    }
+    return child;
+}
+
+function getItems(node: FieldNode): FieldNode {
+    node.items ??= createNode(node.key);
+    return node.items;
+}
+
+/**
+ * Rebuilds the nested shape of a table from its flat field paths. Object
+ * properties become children; fields under `path[]` hang off the array
+ * node's `items`.
+ */
+export function buildFieldTree(fields: readonly Field[]): FieldNode {
+    const root = createNode('');
+
+    for (const field of fields) {
+        const segments = parseFieldPath(field.path);
+        let node = root;
+
+        segments.forEach((segment, index) => {
+            node = getChild(node, segment.key);
+
+            if (index === segments.length - 1) {
+                node.field = field;
+            }
+
+            if (segment.isArray) {
+                node = getItems(node);
+            }
+        });
+    }
+
+    return root;
+}
@@ -1,3 +1,9 @@
+import type { EnrichmentCache } from './cache.js';
+import type { ProgressListener } from './progress.js';
+import type { CompletionProvider } from './providers.js';
+import type { RetryOptions } from './retry.js';
+import type { Budget, PriceTable, RunMetadata } from './usage.js';
+
 export type FieldType =
     | 'string'
     | 'number'
@@ -60,6 +66,42 @@ export type FieldFormat =
 
 export type RelationshipType = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
 
+export interface NumericProfile {
+    readonly min: number;
+    readonly max: number;
+    readonly mean: number;
+    readonly stddev: number;
+    readonly p5: number;
+    readonly p50: number;
+    readonly p95: number;
+}
+
+export interface LengthProfile {
+    readonly min: number;
+    readonly max: number;
+}
+
+export interface DateRangeProfile {
+    readonly earliest: string;
+    readonly latest: string;
+}
+
+export type CategoricalValue = string | number | boolean;
+
+export interface ValueFrequency {
+    readonly value: CategoricalValue;
+    readonly count: number;
+}
+
+export interface FieldProfile {
+    readonly valueCount: number;
+    readonly distinctCount: number;
+    readonly numeric?: NumericProfile;
+    readonly length?: LengthProfile;
+    readonly dateRange?: DateRangeProfile;
+    readonly topValues?: readonly ValueFrequency[];
+}
+
 export interface Field {
     readonly path: string;
     readonly type: FieldType;
@@ -71,6 +113,9 @@ export interface Field {
     readonly aggregation?: AggregationType;
     readonly personalData?: PersonalDataType | false;
     readonly itemType?: FieldType;
+    readonly mixedTypes?: readonly FieldType[];
+    readonly enumValues?: readonly ValueFrequency[];
+    readonly profile?: FieldProfile;
 }
 
 export interface StatsField {
@@ -80,6 +125,9 @@ export interface StatsField {
     readonly format?: FieldFormat;
     readonly itemType?: FieldType;
     readonly examples: readonly unknown[];
+    readonly mixedTypes?: readonly FieldType[];
+    readonly enumValues?: readonly ValueFrequency[];
+    readonly profile?: FieldProfile;
 }
 
 export interface Entity {
@@ -96,6 +144,7 @@ export interface Relationship {
     readonly type: RelationshipType;
     readonly confidence: number;
     readonly description: string;
+    readonly containment?: number;
 }
 
 export interface TableCapabilities {
@@ -107,12 +156,15 @@ export interface TableCapabilities {
 
 export interface StatsTableSchema {
     readonly fields: readonly StatsField[];
+    readonly primaryKey?: readonly string[];
+    readonly candidateKeys?: readonly (readonly string[])[];
 }
 
 export interface TableSchema {
     readonly domain: string;
     readonly description: string;
     readonly dataGrain: string;
+    readonly primaryKey?: readonly string[];
     readonly entities: readonly Entity[];
     readonly fields: readonly Field[];
     readonly capabilities: TableCapabilities;
@@ -120,6 +172,7 @@ export interface TableSchema {
 
 export interface StatsMultiTableSchema {
     readonly tables: Readonly<Record<string, StatsTableSchema>>;
+    readonly relationships?: readonly Relationship[];
 }
 
 export interface MultiTableSchema {
@@ -151,24 +204,57 @@ export const consoleLogger: Logger = {
 };
 
 export interface AnalyzeOptions {
-    readonly apiKey: string;
+    readonly apiKey?: string;
+    readonly provider?: CompletionProvider;
+    readonly cache?: EnrichmentCache;
+    readonly previousSchema?: MultiTableSchema;
     readonly maxRows?: number;
     readonly maxDepth?: number;
     readonly skipAI?: boolean;
     readonly model?: string;
     readonly logger?: Logger;
     readonly timeout?: number;
+    readonly concurrency?: number;
+    readonly retry?: RetryOptions;
+    readonly budget?: Budget;
+    readonly prices?: PriceTable;
+    /** Cancels statistics and enrichment; `analyze` rejects with `signal.reason`. */
+    readonly signal?: AbortSignal;
+    readonly onProgress?: ProgressListener;
     readonly formatThreshold?: number;
     readonly mixedTypeThreshold?: number;
+    readonly enumThreshold?: number;
+}
+
+export interface AnalysisResult {
+    readonly schema: MultiTableSchema;
+    readonly metadata: RunMetadata;
+}
+
+export interface StreamAnalysisResult extends AnalysisResult {
+    /** Every row read from the source. */
+    readonly rowCount: number;
+    /** Rows kept by reservoir sampling and profiled, at most `maxRows`. */
+    readonly sampledRowCount: number;
 }
 
+export type InvalidInputReason = 'primitive' | 'empty' | 'malformed';
+
+const INVALID_INPUT_MESSAGES: Readonly<Record<InvalidInputReason, string>> = {
+    primitive: 'Input cannot be a primitive value',
+    empty: 'Input cannot be empty',
+    malformed: 'Input is malformed',
+};
+
 export class InvalidInputError extends Error {
     public readonly name = 'InvalidInputError' as const;
 
-    constructor(public readonly reason: 'primitive' | 'empty') {
-        super(
-            reason === 'primitive' ? 'Input cannot be a primitive value' : 'Input cannot be empty'
-        );
+    constructor(
+        public readonly reason: InvalidInputReason,
+        detail?: string
+    ) {
+        const message = INVALID_INPUT_MESSAGES[reason];
+        super(detail ? `${message}: ${detail}` : message);
     }
 }
 
@@ -0,0 +1,165 @@
+import { buildFieldTree, type FieldNode } from './tree.js';
+import type { Field, FieldType, MultiTableSchema, TableSchema } from './types.js';
+import { toPascalCase } from './utils.js';
+
+const INDENT = '    ';
+
+const TYPE_NAMES: Readonly<Record<FieldType, string>> = {
+    string: 'string',
+    number: 'number',
+    int: 'number',
+    boolean: 'boolean',
+    date: 'string',
+    array: 'unknown[]',
+    object: 'Record<string, unknown>',
+    null: 'null',
+    mixed: 'unknown',
+};
+
+const VALID_IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function quoteString(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function formatPropertyKey(key: string): string {
+    return VALID_IDENTIFIER.test(key) ? key : quoteString(key);
+}
+
+function formatLiteral(value: string | number | boolean): string {
+    return typeof value === 'string' ? quoteString(value) : String(value);
+}
+
+function sanitizeComment(text: string): string {
+    return text.replace(/\*\//g, '*\\/');
+}
+
+function buildDocComment(lines: readonly string[], indent: string): string[] {
+    if (lines.length === 0) {
+        return [];
+    }
+
+    return [
+        `${indent}/**`,
+        ...lines.map((line) => (line ? `${indent} * ${sanitizeComment(line)}` : `${indent} *`)),
+        `${indent} */`,
+    ];
+}
+
+function buildFieldDocLines(field: Field): string[] {
+    const notes: string[] = [];
+
+    if (field.unit) {
+        notes.push(`Unit: ${field.unit}`);
+    }
+
+    if (field.personalData) {
+        notes.push(`Personal data: ${field.personalData}`);
+    }
+
+    if (notes.length === 0) {
+        return [field.description];
+    }
+
+    return [field.description, '', ...notes];
+}
+
+function withNullability(typeText: string, nullable: boolean): string {
+    return nullable && typeText !== 'null' ? `${typeText} | null` : typeText;
+}
+
+function renderObject(node: FieldNode, depth: number): string {
+    const indent = INDENT.repeat(depth + 1);
+    const lines: string[] = ['{'];
+
+    for (const [key, child] of node.children) {
+        if (child.field) {
+            lines.push(...buildDocComment(buildFieldDocLines(child.field), indent));
+        }
+
+        lines.push(`${indent}${formatPropertyKey(key)}?: ${renderNodeType(child, depth + 1)};`);
+    }
+
+    lines.push(`${INDENT.repeat(depth)}}`);
+    return lines.join('\n');
+}
+
+function renderArray(node: FieldNode, depth: number): string {
+    if (node.items) {
+        return `Array<${renderObject(node.items, depth)}>`;
+    }
+
+    const itemType = node.field?.itemType;
+    return itemType ? `Array<${TYPE_NAMES[itemType]}>` : TYPE_NAMES.array;
+}
+
+function renderFieldType(field: Field): string {
+    if (field.enumValues) {
+        return field.enumValues.map((entry) => formatLiteral(entry.value)).join(' | ');
+    }
+
+    if (field.type === 'mixed' && field.mixedTypes) {
+        const members = field.mixedTypes.map((mixedType) => TYPE_NAMES[mixedType]);
+        return [...new Set(members)].join(' | ');
+    }
+
+    return TYPE_NAMES[field.type];
+}
+
+function renderNodeType(node: FieldNode, depth: number): string {
+    const field = node.field;
+    const isArray = field ? field.type === 'array' : node.items !== undefined;
+    const isObject = field ? field.type === 'object' : !node.items;
+
+    let typeText: string;
+
+    if (isArray) {
+        typeText = renderArray(node, depth);
+    } else if (isObject && node.children.size > 0) {
+        typeText = renderObject(node, depth);
+    } else {
+        typeText = field ? renderFieldType(field) : TYPE_NAMES.object;
+    }
+
+    return withNullability(typeText, field?.nullable ?? false);
+}
+
+function resolveInterfaceName(tableName: string, table: TableSchema): string {
+    const keyField = table.primaryKey?.length === 1 ? table.primaryKey[0] : undefined;
+    const entity =
+        table.entities.find((candidate) => keyField && candidate.idField === keyField) ??
+        table.entities[0];
+
+    return toPascalCase(entity?.name ?? tableName) || 'Row';
+}
+
+function renderInterface(interfaceName: string, tableName: string, table: TableSchema): string {
+    const docLines = [table.description, '', `Table: ${tableName}`, `Grain: ${table.dataGrain}`];
+    const body = renderObject(buildFieldTree(table.fields), 0);
+
+    return [...buildDocComment(docLines, ''), `export interface ${interfaceName} ${body}`].join(
+        '\n'
+    );
+}
+
+/**
+ * Emits `.d.ts` source with one interface per table. Interfaces are named
+ * after the table's entity when one is known, falling back to the table name.
+ */
+export function toTypeScript(schema: MultiTableSchema): string {
+    const usedNames = new Set<string>();
+    const declarations: string[] = [];
+
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        let interfaceName = resolveInterfaceName(tableName, table);
+
+        if (usedNames.has(interfaceName)) {
+            interfaceName = `${interfaceName}${toPascalCase(tableName)}`;
+        }
+
+        usedNames.add(interfaceName);
+        declarations.push(renderInterface(interfaceName, tableName, table));
+    }
+
+    return `${declarations.join('\n\n')}\n`;
+}
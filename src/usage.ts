@@ -0,0 +1,231 @@
+import { MODEL_PRICES } from './constants.js';
+import { estimateTokens } from './context.js';
+import type {
+    CompletionRequest,
+    CompletionResponse,
+    CompletionStage,
+    CompletionUsage,
+} from './providers.js';
+
+/** US dollars per million tokens. */
+export interface ModelPrice {
+    readonly input: number;
+    readonly output: number;
+}
+
+/** Keyed by model name or name prefix; the longest matching key wins. */
+export type PriceTable = Readonly<Record<string, ModelPrice>>;
+
+export interface Budget {
+    /** Input plus output tokens across all stages. */
+    readonly maxTokens?: number;
+    /** US dollars, priced with the price table. */
+    readonly maxCost?: number;
+}
+
+export interface StageUsage {
+    readonly requests: number;
+    readonly cachedResponses: number;
+    readonly inputTokens: number;
+    readonly outputTokens: number;
+    /** Wall time from the first request's start to the last one's end. */
+    readonly durationMs: number;
+    /** Missing when a response came from a model without a price. */
+    readonly estimatedCost?: number;
+}
+
+export interface RunMetadata {
+    readonly models: readonly string[];
+    readonly stages: Readonly<Record<CompletionStage, StageUsage>>;
+    readonly inputTokens: number;
+    readonly outputTokens: number;
+    readonly estimatedCost?: number;
+    readonly durationMs: number;
+}
+
+export class BudgetExceededError extends Error {
+    public readonly name = 'BudgetExceededError' as const;
+
+    constructor(
+        message: string,
+        public readonly limit: keyof Budget,
+        public readonly usage: RunMetadata
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Collects token usage and timing per stage and enforces the budget. Checks
+ * run before each request against an estimate of its prompt; output tokens
+ * count once they are known, so a single reply can still overshoot.
+ */
+export interface UsageTracker {
+    /** Throws `BudgetExceededError` if sending `estimatedInputTokens` more would exceed the budget. */
+    assertWithinBudget(estimatedInputTokens: number, model: string | undefined): void;
+    /** Returns the tokens counted for this response. */
+    recordResponse(
+        request: CompletionRequest,
+        response: CompletionResponse,
+        startedAt: number,
+        endedAt: number
+    ): CompletionUsage;
+    recordCacheHit(stage: CompletionStage): void;
+    snapshot(): RunMetadata;
+}
+
+export interface UsageTrackerOptions {
+    readonly prices?: PriceTable;
+    readonly budget?: Budget;
+}
+
+interface StageTotals {
+    requests: number;
+    cachedResponses: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number | undefined;
+    startedAt: number | undefined;
+    endedAt: number | undefined;
+}
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+export function findModelPrice(model: string, prices: PriceTable): ModelPrice | undefined {
+    const key = Object.keys(prices)
+        .filter((prefix) => model.startsWith(prefix))
+        .sort((keyA, keyB) => keyB.length - keyA.length)[0];
+
+    return key === undefined ? undefined : prices[key];
+}
+
+export function estimateRequestTokens(request: Pick<CompletionRequest, 'messages'>): number {
+    return request.messages.reduce((total, message) => total + estimateTokens(message.content), 0);
+}
+
+function emptyTotals(): StageTotals {
+    return {
+        requests: 0,
+        cachedResponses: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+        startedAt: undefined,
+        endedAt: undefined,
+    };
+}
+
+function toStageUsage(totals: StageTotals): StageUsage {
+    const { startedAt, endedAt, cost } = totals;
+
+    return {
+        requests: totals.requests,
+        cachedResponses: totals.cachedResponses,
+        inputTokens: totals.inputTokens,
+        outputTokens: totals.outputTokens,
+        durationMs: startedAt !== undefined && endedAt !== undefined ? endedAt - startedAt : 0,
+        ...(cost !== undefined && { estimatedCost: cost }),
+    };
+}
+
+export function createUsageTracker(options: UsageTrackerOptions = {}): UsageTracker {
+    const prices = { ...MODEL_PRICES, ...options.prices };
+    const { budget = {} } = options;
+    const startedAt = Date.now();
+    const models = new Set<string>();
+    const totals: Record<CompletionStage, StageTotals> = {
+        fields: emptyTotals(),
+        relationships: emptyTotals(),
+        domain: emptyTotals(),
+    };
+
+    const snapshot = (): RunMetadata => {
+        const stages = {
+            fields: toStageUsage(totals.fields),
+            relationships: toStageUsage(totals.relationships),
+            domain: toStageUsage(totals.domain),
+        };
+        const all = Object.values(stages);
+        const costs = all.map((stage) => stage.estimatedCost);
+
+        return {
+            models: [...models],
+            stages,
+            inputTokens: all.reduce((sum, stage) => sum + stage.inputTokens, 0),
+            outputTokens: all.reduce((sum, stage) => sum + stage.outputTokens, 0),
+            ...(costs.every((cost) => cost !== undefined) && {
+                estimatedCost: costs.reduce((sum, cost) => sum + cost, 0),
+            }),
+            durationMs: Date.now() - startedAt,
+        };
+    };
+
+    return {
+        assertWithinBudget(estimatedInputTokens, model) {
+            const usage = snapshot();
+            const spentTokens = usage.inputTokens + usage.outputTokens;
+
+            if (
+                budget.maxTokens !== undefined &&
+                spentTokens + estimatedInputTokens > budget.maxTokens
+            ) {
+                throw new BudgetExceededError(
+                    `Token budget of ${budget.maxTokens} would be exceeded: ${spentTokens} used, about ${estimatedInputTokens} more needed`,
+                    'maxTokens',
+                    usage
+                );
+            }
+
+            const price = model === undefined ? undefined : findModelPrice(model, prices);
+
+            if (budget.maxCost === undefined || !price || usage.estimatedCost === undefined) {
+                return;
+            }
+
+            const estimatedCost = (estimatedInputTokens * price.input) / TOKENS_PER_PRICE_UNIT;
+
+            if (usage.estimatedCost + estimatedCost > budget.maxCost) {
+                throw new BudgetExceededError(
+                    `Cost budget of $${budget.maxCost} would be exceeded: $${usage.estimatedCost.toFixed(4)} spent, about $${estimatedCost.toFixed(4)} more needed`,
+                    'maxCost',
+                    usage
+                );
+            }
+        },
+        recordResponse(request, response, requestStartedAt, requestEndedAt) {
+            const stageTotal = totals[request.stage];
+            // Providers that report no usage are estimated from the text.
+            const inputTokens = response.usage?.inputTokens ?? estimateRequestTokens(request);
+            const outputTokens =
+                response.usage?.outputTokens ??
+                estimateTokens(
+                    response.toolInput === undefined
+                        ? response.text
+                        : JSON.stringify(response.toolInput)
+                );
+            const price = findModelPrice(response.model, prices);
+
+            models.add(response.model);
+            stageTotal.requests++;
+            stageTotal.inputTokens += inputTokens;
+            stageTotal.outputTokens += outputTokens;
+            stageTotal.cost =
+                stageTotal.cost !== undefined && price
+                    ? stageTotal.cost +
+                      (inputTokens * price.input + outputTokens * price.output) /
+                          TOKENS_PER_PRICE_UNIT
+                    : undefined;
+            stageTotal.startedAt = Math.min(
+                stageTotal.startedAt ?? requestStartedAt,
+                requestStartedAt
+            );
+            stageTotal.endedAt = Math.max(stageTotal.endedAt ?? requestEndedAt, requestEndedAt);
+
+            return { inputTokens, outputTokens };
+        },
+        recordCacheHit(stage) {
+            totals[stage].cachedResponses++;
+        },
+        snapshot,
+    };
+}
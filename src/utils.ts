@@ -19,6 +19,48 @@ export function escapePathSegment(segment: string): string {
         .replace(/\]/g, '\\]');
 }
 
+export interface PathSegment {
+    readonly key: string;
+    readonly isArray: boolean;
+}
+
+/**
+ * Splits a field path produced by `computeStats` into unescaped segments.
+ * A trailing `[]` marks a segment whose children live inside array items.
+ */
+export function parseFieldPath(path: string): PathSegment[] {
+    const segments: PathSegment[] = [];
+    let key = '';
+    let isArray = false;
+
+    for (let index = 0; index < path.length; index++) {
+        const char = path[index];
+
+        if (char === '\\') {
+            key += path[index + 1] ?? '';
+            index++;
+        } else if (char === '[' && path[index + 1] === ']') {
+            isArray = true;
+            index++;
+        } else if (char === '.') {
+            segments.push({ key, isArray });
+            key = '';
+            isArray = false;
+        } else {
+            key += char;
+        }
+    }
+
+    segments.push({ key, isArray });
+    return segments;
+}
+
+export function toColumnName(path: string): string {
+    return parseFieldPath(path)
+        .map((segment) => segment.key)
+        .join('_');
+}
+
 export function buildFieldPath(segments: readonly string[]): string {
     return segments.join('.');
 }
@@ -38,6 +80,17 @@ export function toReadableFieldName(fieldName: string): string {
         .toLowerCase();
 }
 
+export function toPascalCase(name: string): string {
+    const pascal = name
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join('');
+
+    return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+}
+
 export function pathContainsAny(path: string, patterns: readonly string[]): boolean {
     const lowerPath = path.toLowerCase();
     return patterns.some((pattern) => lowerPath.includes(pattern));
@@ -70,3 +123,36 @@ export function extractJsonFromText(text: string): string {
     }
 }
 
+/**
+ * Like `Promise.all(items.map(fn))`, with at most `concurrency` calls in flight.
+ * No further call starts once one has failed or the signal has aborted.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: readonly T[],
+    concurrency: number,
+    fn: (item: T, index: number) => Promise<R>,
+    signal?: AbortSignal
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+    let failed = false;
+
+    const worker = async (): Promise<void> => {
+        while (!failed && nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                signal?.throwIfAborted();
+                results[index] = await fn(items[index] as T, index);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, items.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    return results;
+}
+
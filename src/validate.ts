@@ -0,0 +1,267 @@
+import { inferType } from '@jsonhero/json-infer-types';
+import { LIMITS } from './constants.js';
+import { detect } from './detect.js';
+import { extractFieldFormat, mapToFieldType } from './stats.js';
+import type { Field, FieldType, MultiTableSchema, TableSchema } from './types.js';
+import type { PlainObject } from './utils.js';
+import { walkRow } from './walk.js';
+
+export type ViolationKind =
+    | 'unknown-table'
+    | 'unknown-field'
+    | 'type-mismatch'
+    | 'null-value'
+    | 'format-mismatch'
+    | 'enum-mismatch';
+
+export interface Violation {
+    readonly table: string;
+    readonly kind: ViolationKind;
+    readonly message: string;
+    readonly row?: number;
+    readonly path?: string;
+    readonly value?: unknown;
+}
+
+export interface TableValidationSummary {
+    readonly rows: number;
+    readonly invalidRows: number;
+    readonly violations: number;
+    readonly byKind: Readonly<Partial<Record<ViolationKind, number>>>;
+}
+
+export interface ValidationReport {
+    readonly valid: boolean;
+    readonly violations: readonly Violation[];
+    readonly truncated: boolean;
+    readonly tables: Readonly<Record<string, TableValidationSummary>>;
+}
+
+export interface ValidateOptions {
+    readonly maxViolations?: number;
+    readonly maxDepth?: number;
+    readonly allowUnknownFields?: boolean;
+}
+
+interface ResolvedValidateOptions {
+    readonly maxViolations: number;
+    readonly maxDepth: number;
+    readonly allowUnknownFields: boolean;
+}
+
+interface ViolationCollector {
+    readonly violations: Violation[];
+    truncated: boolean;
+}
+
+interface TableTally {
+    invalidRows: number;
+    violations: number;
+    byKind: Partial<Record<ViolationKind, number>>;
+}
+
+const ACCEPTED_TYPES: Readonly<Record<FieldType, readonly FieldType[]>> = {
+    string: ['string'],
+    number: ['number', 'int'],
+    int: ['int'],
+    boolean: ['boolean'],
+    date: ['string'],
+    array: ['array'],
+    object: ['object'],
+    null: [],
+    mixed: [],
+};
+
+function addViolation(
+    collector: ViolationCollector,
+    tally: TableTally,
+    violation: Violation,
+    maxViolations: number
+): void {
+    tally.violations++;
+    tally.byKind[violation.kind] = (tally.byKind[violation.kind] ?? 0) + 1;
+
+    if (collector.violations.length >= maxViolations) {
+        collector.truncated = true;
+        return;
+    }
+
+    collector.violations.push(violation);
+}
+
+function isDescendantOf(path: string, ancestors: readonly string[]): boolean {
+    return ancestors.some(
+        (ancestor) => path.startsWith(`${ancestor}.`) || path.startsWith(`${ancestor}[].`)
+    );
+}
+
+function acceptsType(field: Field, actualType: FieldType): boolean {
+    if (field.type !== 'mixed') {
+        return ACCEPTED_TYPES[field.type].includes(actualType);
+    }
+
+    if (!field.mixedTypes) {
+        return true;
+    }
+
+    return field.mixedTypes.includes(actualType === 'int' ? 'number' : actualType);
+}
+
+function checkFieldValue(field: Field, value: unknown): Omit<Violation, 'table' | 'row'> | null {
+    const { path } = field;
+
+    if (value === null || value === undefined) {
+        return field.nullable
+            ? null
+            : { kind: 'null-value', path, message: `${path} must not be null` };
+    }
+
+    const inferred = inferType(value);
+    const actualType = mapToFieldType(inferred);
+
+    if (!acceptsType(field, actualType)) {
+        return {
+            kind: 'type-mismatch',
+            path,
+            value,
+            message: `${path} expected ${field.type}, got ${actualType}`,
+        };
+    }
+
+    if (
+        field.format &&
+        typeof value === 'string' &&
+        extractFieldFormat(inferred) !== field.format
+    ) {
+        return {
+            kind: 'format-mismatch',
+            path,
+            value,
+            message: `${path} is not a valid ${field.format}`,
+        };
+    }
+
+    if (field.enumValues && !field.enumValues.some((entry) => entry.value === value)) {
+        return {
+            kind: 'enum-mismatch',
+            path,
+            value,
+            message: `${path} value is not one of the allowed values`,
+        };
+    }
+
+    return null;
+}
+
+function validateRows(
+    tableName: string,
+    rows: readonly PlainObject[],
+    table: TableSchema,
+    collector: ViolationCollector,
+    options: ResolvedValidateOptions
+): TableValidationSummary {
+    const fieldsByPath = new Map(table.fields.map((field) => [field.path, field]));
+    const tally: TableTally = { invalidRows: 0, violations: 0, byKind: {} };
+
+    rows.forEach((row, rowIndex) => {
+        const violationsBefore = tally.violations;
+        const unknownPaths: string[] = [];
+
+        walkRow(
+            row,
+            (path, value) => {
+                const field = fieldsByPath.get(path);
+
+                if (!field) {
+                    if (options.allowUnknownFields || isDescendantOf(path, unknownPaths)) {
+                        return;
+                    }
+
+                    unknownPaths.push(path);
+                    addViolation(
+                        collector,
+                        tally,
+                        {
+                            table: tableName,
+                            row: rowIndex,
+                            kind: 'unknown-field',
+                            path,
+                            message: `${path} is not defined in the schema`,
+                        },
+                        options.maxViolations
+                    );
+                    return;
+                }
+
+                const violation = checkFieldValue(field, value);
+
+                if (violation) {
+                    addViolation(
+                        collector,
+                        tally,
+                        { table: tableName, row: rowIndex, ...violation },
+                        options.maxViolations
+                    );
+                }
+            },
+            options.maxDepth
+        );
+
+        if (tally.violations > violationsBefore) {
+            tally.invalidRows++;
+        }
+    });
+
+    return { rows: rows.length, ...tally };
+}
+
+/**
+ * Checks data against a generated schema. Tables are split with the same
+ * rules as `computeStats`, so field paths line up with the schema's own.
+ */
+export function validate(
+    data: unknown,
+    schema: MultiTableSchema,
+    options: ValidateOptions = {}
+): ValidationReport {
+    const resolved: ResolvedValidateOptions = {
+        maxViolations: options.maxViolations ?? LIMITS.maxValidationViolations,
+        maxDepth: options.maxDepth ?? LIMITS.maxTraversalDepth,
+        allowUnknownFields: options.allowUnknownFields ?? false,
+    };
+
+    const detected = detect(data);
+    const collector: ViolationCollector = { violations: [], truncated: false };
+    const tables: Record<string, TableValidationSummary> = {};
+
+    for (const [tableName, rows] of Object.entries(detected.tables)) {
+        const table = Object.hasOwn(schema.tables, tableName)
+            ? schema.tables[tableName]
+            : undefined;
+
+        if (!table) {
+            const tally: TableTally = { invalidRows: rows.length, violations: 0, byKind: {} };
+            addViolation(
+                collector,
+                tally,
+                {
+                    table: tableName,
+                    kind: 'unknown-table',
+                    message: `Table ${tableName} is not defined in the schema`,
+                },
+                resolved.maxViolations
+            );
+            tables[tableName] = { rows: rows.length, ...tally };
+            continue;
+        }
+
+        tables[tableName] = validateRows(tableName, rows, table, collector, resolved);
+    }
+
+    return {
+        valid: Object.values(tables).every((summary) => summary.violations === 0),
+        violations: collector.violations,
+        truncated: collector.truncated,
+        tables,
+    };
+}
@@ -1,3 +1,4 @@
+import _ from 'lodash';
 import { z } from 'zod';
 import { AIValidationError } from './types.js';
 
@@ -86,28 +87,72 @@ const DomainResponseSchema = z.object({
     tables: z.record(z.string(), TableDomainSchema),
 });
 
+/** What a repair round may end with: the header can stay invalid and default later. */
+const PartialDomainResponseSchema = DomainResponseSchema.partial({
+    domain: true,
+    description: true,
+});
+
+function toToolInputSchema(schema: z.ZodType): Record<string, unknown> {
+    // Input side: the model sends `null` where the parsed value becomes `undefined`.
+    const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input' });
+    return jsonSchema;
+}
+
+/** JSON Schemas of the raw stage responses, for tool calling. */
+export const RESPONSE_JSON_SCHEMAS = {
+    fields: toToolInputSchema(FieldsResponseSchema),
+    relationships: toToolInputSchema(RelationshipsResponseSchema),
+    domain: toToolInputSchema(DomainResponseSchema),
+} as const;
+
 export type ValidatedFieldsResponse = z.infer<typeof FieldsResponseSchema>;
 export type ValidatedRelationshipsResponse = z.infer<typeof RelationshipsResponseSchema>;
-export type ValidatedDomainResponse = z.infer<typeof DomainResponseSchema>;
+export type ValidatedDomainResponse = z.infer<typeof PartialDomainResponseSchema>;
+
+/** The valid parts of a response, in the response's own shape, and what was dropped. */
+export interface SalvagedResponse<P> {
+    readonly accepted: P;
+    readonly errors: readonly string[];
+}
+
+/** Raw, individually valid items; the strict validators accept them once complete. */
+export interface FieldsResponsePart {
+    readonly tables: Record<string, Record<string, unknown>>;
+}
 
-function formatZodErrors(error: z.ZodError): string[] {
+export interface RelationshipsResponsePart {
+    readonly relationships: unknown[];
+}
+
+export interface DomainResponsePart {
+    readonly domain?: unknown;
+    readonly description?: unknown;
+    readonly entities: unknown[];
+    readonly tables: Record<string, unknown>;
+}
+
+type IssuePath = readonly PropertyKey[];
+
+function formatZodErrors(error: z.ZodError, prefix: IssuePath = []): string[] {
     return error.issues.map((issue) => {
-        const path = issue.path.join('.');
+        const path = [...prefix, ...issue.path].map(String).join('.');
         return path ? `${path}: ${issue.message}` : issue.message;
     });
 }
 
-function parseAndValidate<T>(raw: string, schema: z.ZodSchema<T>, errorContext: string): T {
-    let parsed: unknown;
-
+function parseJson(raw: string, errorContext: string): unknown {
     try {
-        parsed = JSON.parse(raw);
+        return JSON.parse(raw);
     } catch {
         throw new AIValidationError(`Invalid JSON in ${errorContext}`, raw, [
             'Failed to parse JSON',
         ]);
     }
+}
 
+function parseAndValidate<T>(raw: string, schema: z.ZodSchema<T>, errorContext: string): T {
+    const parsed = parseJson(raw, errorContext);
     const result = schema.safeParse(parsed);
 
     if (!result.success) {
@@ -132,3 +177,175 @@ export function validateRelationshipsResponse(raw: string): ValidatedRelationshi
 export function validateDomainResponse(raw: string): ValidatedDomainResponse {
     return parseAndValidate(raw, DomainResponseSchema, 'Domain response');
 }
+
+export function validatePartialDomainResponse(raw: string): ValidatedDomainResponse {
+    return parseAndValidate(raw, PartialDomainResponseSchema, 'Domain response');
+}
+
+function parseJsonObject(raw: string, errorContext: string): Record<string, unknown> {
+    const parsed = parseJson(raw, errorContext);
+
+    if (!_.isPlainObject(parsed)) {
+        throw new AIValidationError(`Invalid JSON in ${errorContext}`, raw, [
+            'Expected a JSON object',
+        ]);
+    }
+
+    return parsed as Record<string, unknown>;
+}
+
+function salvageEntries(
+    value: unknown,
+    schema: z.ZodType,
+    path: IssuePath,
+    errors: string[]
+): Record<string, unknown> {
+    if (!_.isPlainObject(value)) {
+        errors.push(`${path.join('.')}: Expected an object`);
+        return {};
+    }
+
+    const accepted: Record<string, unknown> = {};
+
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+        const result = schema.safeParse(entry);
+
+        if (result.success) {
+            accepted[key] = entry;
+        } else {
+            errors.push(...formatZodErrors(result.error, [...path, key]));
+        }
+    }
+
+    return accepted;
+}
+
+function salvageItems(
+    value: unknown,
+    schema: z.ZodType,
+    path: IssuePath,
+    errors: string[]
+): unknown[] {
+    if (!Array.isArray(value)) {
+        errors.push(`${path.join('.')}: Expected an array`);
+        return [];
+    }
+
+    return value.filter((item, index) => {
+        const result = schema.safeParse(item);
+
+        if (!result.success) {
+            errors.push(...formatZodErrors(result.error, [...path, index]));
+        }
+
+        return result.success;
+    });
+}
+
+/**
+ * The salvage functions keep every field, relationship, entity or table that
+ * validates on its own and report the rest. They only throw when the response
+ * is not a JSON object at all.
+ */
+export function salvageFieldsResponse(raw: string): SalvagedResponse<FieldsResponsePart> {
+    const parsed = parseJsonObject(raw, 'Fields response');
+    const errors: string[] = [];
+    const rawTables = salvageEntries(
+        parsed.tables,
+        z.record(z.string(), z.unknown()),
+        ['tables'],
+        errors
+    );
+
+    const tables = _.mapValues(rawTables, (fields, tableName) =>
+        salvageEntries(fields, FieldEnrichmentSchema, ['tables', tableName], errors)
+    );
+
+    return { accepted: { tables }, errors };
+}
+
+export function salvageRelationshipsResponse(
+    raw: string
+): SalvagedResponse<RelationshipsResponsePart> {
+    const parsed = parseJsonObject(raw, 'Relationships response');
+    const errors: string[] = [];
+    const relationships = salvageItems(
+        parsed.relationships,
+        RelationshipSchema,
+        ['relationships'],
+        errors
+    );
+
+    return { accepted: { relationships }, errors };
+}
+
+export function salvageDomainResponse(raw: string): SalvagedResponse<DomainResponsePart> {
+    const parsed = parseJsonObject(raw, 'Domain response');
+    const errors: string[] = [];
+    const header: { domain?: unknown; description?: unknown } = {};
+
+    for (const key of ['domain', 'description'] as const) {
+        const result = DomainResponseSchema.shape[key].safeParse(parsed[key]);
+
+        if (result.success) {
+            header[key] = parsed[key];
+        } else {
+            errors.push(...formatZodErrors(result.error, [key]));
+        }
+    }
+
+    return {
+        accepted: {
+            ...header,
+            entities: salvageItems(parsed.entities, EntitySchema, ['entities'], errors),
+            tables: salvageEntries(parsed.tables, TableDomainSchema, ['tables'], errors),
+        },
+        errors,
+    };
+}
+
+// Salvaged items passed their schemas, so the key fields are present.
+function relationshipKey(item: unknown): string {
+    const { from, to } = item as z.input<typeof RelationshipSchema>;
+    return JSON.stringify([from, to]);
+}
+
+function entityKey(item: unknown): string {
+    const { table, name } = item as z.input<typeof EntitySchema>;
+    return JSON.stringify([table, name]);
+}
+
+/** The merge functions add items from a repair reply; items already accepted win. */
+export function mergeFieldsParts(
+    base: FieldsResponsePart,
+    update: FieldsResponsePart
+): FieldsResponsePart {
+    const tables = { ...base.tables };
+
+    for (const [tableName, fields] of Object.entries(update.tables)) {
+        tables[tableName] = { ...fields, ...tables[tableName] };
+    }
+
+    return { tables };
+}
+
+export function mergeRelationshipsParts(
+    base: RelationshipsResponsePart,
+    update: RelationshipsResponsePart
+): RelationshipsResponsePart {
+    return {
+        relationships: _.uniqBy([...base.relationships, ...update.relationships], relationshipKey),
+    };
+}
+
+export function mergeDomainParts(
+    base: DomainResponsePart,
+    update: DomainResponsePart
+): DomainResponsePart {
+    return {
+        ...update,
+        ...base,
+        entities: _.uniqBy([...base.entities, ...update.entities], entityKey),
+        tables: { ...update.tables, ...base.tables },
+    };
+}
@@ -0,0 +1,58 @@
+import _ from 'lodash';
+import {
+    buildArrayFieldPath,
+    buildFieldPath,
+    escapePathSegment,
+    type PlainObject,
+} from './utils.js';
+
+export type FieldVisitor = (path: string, value: unknown, depth: number) => void;
+
+function walkArrayItems(
+    arrayItems: readonly unknown[],
+    visit: FieldVisitor,
+    arraySegments: readonly string[],
+    currentDepth: number,
+    maxDepth: number
+): void {
+    for (const item of arrayItems) {
+        if (_.isPlainObject(item)) {
+            walkObject(item as PlainObject, visit, arraySegments, currentDepth, maxDepth);
+        }
+    }
+}
+
+function walkObject(
+    sourceObject: PlainObject,
+    visit: FieldVisitor,
+    pathSegments: readonly string[],
+    currentDepth: number,
+    maxDepth: number
+): void {
+    for (const [key, value] of Object.entries(sourceObject)) {
+        const escapedKey = escapePathSegment(key);
+        const currentPath = [...pathSegments, escapedKey];
+
+        visit(buildFieldPath(currentPath), value, currentDepth);
+
+        if (value === null || value === undefined || currentDepth >= maxDepth) {
+            continue;
+        }
+
+        if (_.isPlainObject(value)) {
+            walkObject(value as PlainObject, visit, currentPath, currentDepth + 1, maxDepth);
+        } else if (Array.isArray(value)) {
+            const arraySegments = [...pathSegments, buildArrayFieldPath(escapedKey)];
+            walkArrayItems(value, visit, arraySegments, currentDepth + 1, maxDepth);
+        }
+    }
+}
+
+/**
+ * Visits every field of a row under the same escaped paths `computeStats`
+ * reports: nested objects extend the path with `.`, and objects inside
+ * arrays are visited under `path[]`.
+ */
+export function walkRow(row: PlainObject, visit: FieldVisitor, maxDepth: number): void {
+    walkObject(row, visit, [], 0, maxDepth);
+}
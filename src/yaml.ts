@@ -0,0 +1,103 @@
+export type YAMLValue =
+    | string
+    | number
+    | boolean
+    | null
+    | readonly YAMLValue[]
+    | { readonly [key: string]: YAMLValue | undefined };
+
+const INDENT = '  ';
+const PLAIN_SCALAR = /^[A-Za-z_][\w .,()/'-]*$/;
+const RESERVED_SCALARS = new Set(['true', 'false', 'yes', 'no', 'on', 'off', 'null', 'y', 'n']);
+
+function formatScalar(value: string | number | boolean | null): string {
+    if (typeof value !== 'string') {
+        return String(value);
+    }
+
+    const isPlain =
+        PLAIN_SCALAR.test(value) &&
+        !value.endsWith(' ') &&
+        !RESERVED_SCALARS.has(value.toLowerCase());
+
+    // A JSON string is a valid double-quoted YAML scalar.
+    return isPlain ? value : JSON.stringify(value);
+}
+
+function isCollection(
+    value: YAMLValue
+): value is readonly YAMLValue[] | { readonly [key: string]: YAMLValue | undefined } {
+    return typeof value === 'object' && value !== null;
+}
+
+function isSequence(value: YAMLValue): value is readonly YAMLValue[] {
+    return Array.isArray(value);
+}
+
+function isEmptyCollection(value: YAMLValue): boolean {
+    if (isSequence(value)) {
+        return value.length === 0;
+    }
+
+    return isCollection(value) && Object.keys(value).length === 0;
+}
+
+function definedEntries(value: {
+    readonly [key: string]: YAMLValue | undefined;
+}): [string, YAMLValue][] {
+    return Object.entries(value).filter((entry): entry is [string, YAMLValue] => {
+        return entry[1] !== undefined;
+    });
+}
+
+function renderValue(value: YAMLValue, depth: number): string[] {
+    if (!isCollection(value)) {
+        return [formatScalar(value)];
+    }
+
+    if (isEmptyCollection(value)) {
+        return [Array.isArray(value) ? '[]' : '{}'];
+    }
+
+    return isSequence(value) ? renderSequence(value, depth) : renderMapping(value, depth);
+}
+
+function renderMapping(
+    mapping: { readonly [key: string]: YAMLValue | undefined },
+    depth: number
+): string[] {
+    const indent = INDENT.repeat(depth);
+    const lines: string[] = [];
+
+    for (const [key, value] of definedEntries(mapping)) {
+        const label = `${indent}${formatScalar(key)}:`;
+
+        if (isCollection(value) && !isEmptyCollection(value)) {
+            lines.push(label, ...renderValue(value, depth + 1));
+        } else {
+            lines.push(`${label} ${renderValue(value, depth)[0]}`);
+        }
+    }
+
+    return lines;
+}
+
+function renderSequence(sequence: readonly YAMLValue[], depth: number): string[] {
+    const indent = INDENT.repeat(depth);
+    const lines: string[] = [];
+
+    for (const item of sequence) {
+        const [first = '', ...rest] = renderValue(item, depth + 1);
+        lines.push(`${indent}- ${first.trimStart()}`, ...rest);
+    }
+
+    return lines;
+}
+
+/**
+ * Serializes plain data to block-style YAML. Covers what the exporters emit
+ * (mappings, sequences and scalars); `undefined` mapping values are omitted.
+ */
+export function toYAML(value: YAMLValue): string {
+    return `${renderValue(value, 0).join('\n')}\n`;
+}
@@ -0,0 +1,343 @@
+import { type ZodType, z } from 'zod';
+import { buildFieldTree, type FieldNode } from './tree.js';
+import type { CategoricalValue, Field, FieldType, MultiTableSchema } from './types.js';
+import { toPascalCase } from './utils.js';
+
+type PrimitiveName = 'string' | 'number' | 'int' | 'boolean' | 'null' | 'unknown';
+type StringFormat = 'email' | 'uuid' | 'url' | 'datetime' | 'date' | 'time' | 'ipv4' | 'ipv6';
+
+type ZodShape =
+    | { readonly kind: 'primitive'; readonly name: PrimitiveName }
+    | { readonly kind: 'format'; readonly format: StringFormat }
+    | { readonly kind: 'literals'; readonly values: readonly CategoricalValue[] }
+    | { readonly kind: 'union'; readonly members: readonly ZodSpec[] }
+    | { readonly kind: 'array'; readonly item: ZodSpec }
+    | { readonly kind: 'object'; readonly properties: readonly (readonly [string, ZodSpec])[] }
+    | { readonly kind: 'record' };
+
+interface ZodSpec {
+    readonly shape: ZodShape;
+    readonly nullable: boolean;
+    /** Object properties: rows may leave any key out. */
+    readonly optional: boolean;
+    readonly description?: string;
+}
+
+const INDENT = '    ';
+
+const PRIMITIVES: Readonly<Record<FieldType, PrimitiveName | undefined>> = {
+    string: 'string',
+    number: 'number',
+    int: 'int',
+    boolean: 'boolean',
+    date: 'string',
+    array: undefined,
+    object: undefined,
+    null: 'null',
+    mixed: 'unknown',
+};
+
+const STRING_FORMATS: Readonly<Record<string, readonly StringFormat[]>> = {
+    email: ['email'],
+    uuid: ['uuid'],
+    url: ['url'],
+    // json-infer-types reports date-only and time-only strings as `datetime` too.
+    datetime: ['datetime', 'date', 'time'],
+    iso8601: ['datetime', 'date', 'time'],
+    date: ['date'],
+    time: ['time'],
+    ip: ['ipv4'],
+    ipv6: ['ipv6'],
+};
+
+const FORMAT_FACTORIES: Readonly<Record<StringFormat, () => ZodType>> = {
+    email: () => z.email(),
+    uuid: () => z.uuid(),
+    url: () => z.url(),
+    datetime: () => z.iso.datetime({ offset: true, local: true }),
+    date: () => z.iso.date(),
+    time: () => z.iso.time(),
+    ipv4: () => z.ipv4(),
+    ipv6: () => z.ipv6(),
+};
+
+const FORMAT_SOURCES: Readonly<Record<StringFormat, string>> = {
+    email: 'z.email()',
+    uuid: 'z.uuid()',
+    url: 'z.url()',
+    datetime: 'z.iso.datetime({ offset: true, local: true })',
+    date: 'z.iso.date()',
+    time: 'z.iso.time()',
+    ipv4: 'z.ipv4()',
+    ipv6: 'z.ipv6()',
+};
+
+const PRIMITIVE_FACTORIES: Readonly<Record<PrimitiveName, () => ZodType>> = {
+    string: () => z.string(),
+    number: () => z.number(),
+    int: () => z.int(),
+    boolean: () => z.boolean(),
+    null: () => z.null(),
+    unknown: () => z.unknown(),
+};
+
+function primitive(name: PrimitiveName): ZodShape {
+    return { kind: 'primitive', name };
+}
+
+function formatShape(format: string | undefined): ZodShape | undefined {
+    const formats = format ? STRING_FORMATS[format] : undefined;
+
+    if (!formats) {
+        return undefined;
+    }
+
+    if (formats.length === 1) {
+        return { kind: 'format', format: formats[0] as StringFormat };
+    }
+
+    return {
+        kind: 'union',
+        members: formats.map((member) => ({
+            shape: { kind: 'format', format: member },
+            nullable: false,
+            optional: false,
+        })),
+    };
+}
+
+function typeShape(type: FieldType): ZodShape {
+    return primitive(PRIMITIVES[type] ?? 'unknown');
+}
+
+function fieldShape(field: Field): ZodShape {
+    if (field.enumValues) {
+        return { kind: 'literals', values: field.enumValues.map((entry) => entry.value) };
+    }
+
+    if (field.type === 'mixed' && field.mixedTypes) {
+        const members = field.mixedTypes.map((mixedType) => ({
+            shape: typeShape(mixedType),
+            nullable: false,
+            optional: false,
+        }));
+        return members.length === 1 ? (members[0] as ZodSpec).shape : { kind: 'union', members };
+    }
+
+    if (field.type === 'string' || field.type === 'date') {
+        return formatShape(field.format) ?? primitive('string');
+    }
+
+    return typeShape(field.type);
+}
+
+function objectShape(node: FieldNode): ZodShape {
+    return {
+        kind: 'object',
+        properties: [...node.children].map(([key, child]) => [key, nodeToSpec(child)] as const),
+    };
+}
+
+function arrayShape(node: FieldNode): ZodShape {
+    if (node.items) {
+        return {
+            kind: 'array',
+            item: { shape: objectShape(node.items), nullable: false, optional: false },
+        };
+    }
+
+    const itemType = node.field?.itemType;
+    const item = itemType && itemType !== 'array' ? typeShape(itemType) : primitive('unknown');
+
+    return { kind: 'array', item: { shape: item, nullable: false, optional: false } };
+}
+
+function nodeShape(node: FieldNode): ZodShape {
+    const field = node.field;
+    const isArray = field ? field.type === 'array' : node.items !== undefined;
+    const isObject = field ? field.type === 'object' : !node.items;
+
+    if (isArray) {
+        return arrayShape(node);
+    }
+
+    if (isObject) {
+        return node.children.size > 0 ? objectShape(node) : { kind: 'record' };
+    }
+
+    return field ? fieldShape(field) : primitive('unknown');
+}
+
+function nodeToSpec(node: FieldNode): ZodSpec {
+    const field = node.field;
+
+    return {
+        shape: nodeShape(node),
+        nullable: (field?.nullable ?? false) && field?.type !== 'null',
+        optional: true,
+        ...(field?.description && { description: field.description }),
+    };
+}
+
+function buildLiterals(values: readonly CategoricalValue[]): ZodType {
+    if (values.every((value) => typeof value === 'string')) {
+        return z.enum(values as [string, ...string[]]);
+    }
+
+    const literals = values.map((value) => z.literal(value));
+    return literals.length === 1 ? (literals[0] as ZodType) : z.union(literals);
+}
+
+function buildShape(shape: ZodShape): ZodType {
+    switch (shape.kind) {
+        case 'primitive':
+            return PRIMITIVE_FACTORIES[shape.name]();
+        case 'format':
+            return FORMAT_FACTORIES[shape.format]();
+        case 'literals':
+            return buildLiterals(shape.values);
+        case 'union':
+            return z.union(shape.members.map(buildSpec));
+        case 'array':
+            return z.array(buildSpec(shape.item));
+        case 'object':
+            return z.object(
+                Object.fromEntries(shape.properties.map(([key, spec]) => [key, buildSpec(spec)]))
+            );
+        case 'record':
+            return z.record(z.string(), z.unknown());
+    }
+}
+
+function buildSpec(spec: ZodSpec): ZodType {
+    let schema = buildShape(spec.shape);
+
+    if (spec.nullable) {
+        schema = schema.nullable();
+    }
+
+    if (spec.optional) {
+        schema = schema.optional();
+    }
+
+    return spec.description ? schema.describe(spec.description) : schema;
+}
+
+function quoteString(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function formatLiteral(value: CategoricalValue): string {
+    return typeof value === 'string' ? quoteString(value) : String(value);
+}
+
+function formatPropertyKey(key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quoteString(key);
+}
+
+function printLiterals(values: readonly CategoricalValue[]): string {
+    if (values.every((value) => typeof value === 'string')) {
+        return `z.enum([${values.map(formatLiteral).join(', ')}])`;
+    }
+
+    const literals = values.map((value) => `z.literal(${formatLiteral(value)})`);
+    return literals.length === 1 ? (literals[0] as string) : `z.union([${literals.join(', ')}])`;
+}
+
+function printObject(properties: readonly (readonly [string, ZodSpec])[], depth: number): string {
+    if (properties.length === 0) {
+        return 'z.object({})';
+    }
+
+    const indent = INDENT.repeat(depth + 1);
+    const lines = properties.map(
+        ([key, spec]) => `${indent}${formatPropertyKey(key)}: ${printSpec(spec, depth + 1)},`
+    );
+
+    return `z.object({\n${lines.join('\n')}\n${INDENT.repeat(depth)}})`;
+}
+
+function printShape(shape: ZodShape, depth: number): string {
+    switch (shape.kind) {
+        case 'primitive':
+            return `z.${shape.name}()`;
+        case 'format':
+            return FORMAT_SOURCES[shape.format];
+        case 'literals':
+            return printLiterals(shape.values);
+        case 'union':
+            return `z.union([${shape.members.map((member) => printSpec(member, depth)).join(', ')}])`;
+        case 'array':
+            return `z.array(${printSpec(shape.item, depth)})`;
+        case 'object':
+            return printObject(shape.properties, depth);
+        case 'record':
+            return 'z.record(z.string(), z.unknown())';
+    }
+}
+
+function printSpec(spec: ZodSpec, depth: number): string {
+    const nullable = spec.nullable ? '.nullable()' : '';
+    const optional = spec.optional ? '.optional()' : '';
+    const description = spec.description ? `.describe(${quoteString(spec.description)})` : '';
+
+    return `${printShape(spec.shape, depth)}${nullable}${optional}${description}`;
+}
+
+function buildTableSpecs(schema: MultiTableSchema): Map<string, ZodSpec> {
+    const specs = new Map<string, ZodSpec>();
+
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+        specs.set(tableName, {
+            shape: objectShape(buildFieldTree(table.fields)),
+            nullable: false,
+            optional: false,
+            description: table.description,
+        });
+    }
+
+    return specs;
+}
+
+/**
+ * Builds a runtime Zod object schema per table that accepts a single row.
+ * Descriptions are attached with `.describe()`.
+ */
+export function toZod(schema: MultiTableSchema): Record<string, ZodType> {
+    const schemas: Record<string, ZodType> = {};
+
+    for (const [tableName, spec] of buildTableSpecs(schema)) {
+        schemas[tableName] = buildSpec(spec);
+    }
+
+    return schemas;
+}
+
+/**
+ * Prints TypeScript source equivalent to `toZod`: one exported schema and
+ * inferred row type per table.
+ */
+export function toZodSource(schema: MultiTableSchema): string {
+    const usedNames = new Set<string>();
+    const declarations: string[] = [];
+
+    for (const [tableName, spec] of buildTableSpecs(schema)) {
+        let typeName = toPascalCase(tableName) || 'Row';
+
+        for (let suffix = 2; usedNames.has(typeName); suffix++) {
+            typeName = `${toPascalCase(tableName) || 'Row'}${suffix}`;
+        }
+
+        usedNames.add(typeName);
+
+        const schemaName = `${typeName.charAt(0).toLowerCase()}${typeName.slice(1)}Schema`;
+        declarations.push(
+            [
+                `export const ${schemaName} = ${printSpec(spec, 0)};`,
+                `export type ${typeName} = z.infer<typeof ${schemaName}>;`,
+            ].join('\n')
+        );
+    }
+
+    return `import { z } from 'zod';\n\n${declarations.join('\n\n')}\n`;
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import {
+    APIError,
+    analyze,
+    type CompletionRequest,
+    computeStats,
+    createMemoryCache,
+    type FieldType,
+    type MultiTableSchema,
+    nullLogger,
+} from '../src/index.js';
+import { createScriptedProvider, scriptedStages } from './helpers.js';
+
+function tables(count: number): Record<string, Record<string, unknown>[]> {
+    return Object.fromEntries(
+        Array.from({ length: count }, (_, table) => [
+            `t${String(table).padStart(2, '0')}`,
+            [
+                { id: 1, name: 'a' },
+                { id: 2, name: 'b' },
+            ],
+        ])
+    );
+}
+
+// Twelve tables: more than one batch holds, so fields go out in two requests.
+const data = tables(12);
+
+function fieldRequests(requests: readonly CompletionRequest[]): CompletionRequest[] {
+    return requests.filter((request) => request.stage === 'fields');
+}
+
+/** A previous schema in which the given fields had another type. */
+function retype(
+    schema: MultiTableSchema,
+    changes: Readonly<Record<string, FieldType>>
+): MultiTableSchema {
+    const tables = Object.fromEntries(
+        Object.entries(schema.tables).map(([name, table]) => [
+            name,
+            {
+                ...table,
+                fields: table.fields.map((field) => {
+                    const type = changes[`${name}.${field.path}`] ?? changes[`*.${field.path}`];
+                    return type ? { ...field, type } : field;
+                }),
+            },
+        ])
+    );
+
+    return { ...schema, tables };
+}
+
+describe('batched field enrichment', () => {
+    it('splits fields into batches that each see every table', async () => {
+        const provider = createScriptedProvider(scriptedStages(await computeStats(data)));
+
+        const schema = await analyze(data, { provider, logger: nullLogger });
+        const prompts = fieldRequests(provider.requests).map(
+            (request) => request.messages[0]?.content ?? ''
+        );
+
+        expect(prompts).toHaveLength(2);
+        for (const prompt of prompts) {
+            expect(prompt).toContain('t00');
+            expect(prompt).toContain('t11');
+        }
+        expect(Object.keys(schema.tables)).toHaveLength(12);
+        expect(schema.tables.t11?.fields[1]?.description).toBe('name of t11');
+    });
+
+    it('keeps at most `concurrency` field batches in flight', async () => {
+        const stages = scriptedStages(await computeStats(data));
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const provider = createScriptedProvider(stages);
+        const complete = provider.complete.bind(provider);
+
+        const schema = await analyze(data, {
+            provider: {
+                ...provider,
+                async complete(request) {
+                    if (request.stage !== 'fields') {
+                        return complete(request);
+                    }
+
+                    inFlight++;
+                    maxInFlight = Math.max(maxInFlight, inFlight);
+                    await new Promise((resolve) => setTimeout(resolve, 10));
+                    inFlight--;
+                    return complete(request);
+                },
+            },
+            concurrency: 1,
+            logger: nullLogger,
+        });
+
+        expect(maxInFlight).toBe(1);
+        expect(schema.domain).toBe('testing');
+    });
+
+    it('starts no further field batch once one has failed', async () => {
+        const wide = tables(30);
+        const provider = createScriptedProvider(scriptedStages(await computeStats(wide)));
+        const complete = provider.complete.bind(provider);
+        const requests: CompletionRequest[] = [];
+
+        const result = analyze(wide, {
+            provider: {
+                ...provider,
+                async complete(request) {
+                    requests.push(request);
+                    if (requests.length === 1) {
+                        throw new APIError('Bad request', 400);
+                    }
+                    await new Promise((resolve) => setTimeout(resolve, 10));
+                    return complete(request);
+                },
+            },
+            concurrency: 2,
+            logger: nullLogger,
+        });
+
+        await expect(result).rejects.toThrow('Bad request');
+        // Let the batch still in flight finish, when it could pick up the third.
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(fieldRequests(requests)).toHaveLength(2);
+    });
+
+    it.each([0, 1.5, Number.NaN])('rejects a concurrency of %s', async (concurrency) => {
+        const provider = createScriptedProvider(scriptedStages(await computeStats(data)));
+
+        await expect(analyze(data, { provider, concurrency, logger: nullLogger })).rejects.toThrow(
+            RangeError
+        );
+        expect(provider.requests).toEqual([]);
+    });
+
+    it('does not reuse a cached batch whose dataset context changed', async () => {
+        const cache = createMemoryCache();
+        const provider = createScriptedProvider(scriptedStages(await computeStats(data)));
+        const current = await analyze(data, { provider, logger: nullLogger });
+
+        // Both runs re-enrich `name` everywhere, so the last batch is the same;
+        // the second also re-enriches t00.id, which changes the shared context.
+        await analyze(data, {
+            provider,
+            cache,
+            previousSchema: retype(current, { '*.name': 'int' }),
+            logger: nullLogger,
+        });
+        const before = fieldRequests(provider.requests).length;
+        await analyze(data, {
+            provider,
+            cache,
+            previousSchema: retype(current, { '*.name': 'int', 't00.id': 'string' }),
+            logger: nullLogger,
+        });
+
+        expect(fieldRequests(provider.requests).length - before).toBe(2);
+    });
+});
@@ -0,0 +1,106 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+    analyze,
+    computeStats,
+    createFileCache,
+    createMemoryCache,
+    fingerprintStats,
+    nullLogger,
+} from '../src/index.js';
+import { createScriptedProvider, scriptedStages, shop } from './helpers.js';
+
+describe('enrichment cache', () => {
+    it('serves a repeated run from the cache without requests', async () => {
+        const cache = createMemoryCache();
+        const provider = createScriptedProvider(scriptedStages(await computeStats(shop)));
+
+        const first = await analyze(shop, { provider, cache, logger: nullLogger });
+        const sent = provider.requests.length;
+        const second = await analyze(shop, { provider, cache, logger: nullLogger });
+
+        expect(sent).toBe(3);
+        expect(provider.requests).toHaveLength(sent);
+        expect(second).toEqual(first);
+    });
+
+    it('keeps hitting when values change but the structure does not', async () => {
+        const cache = createMemoryCache();
+        const provider = createScriptedProvider(scriptedStages(await computeStats(shop)));
+        const repriced = {
+            ...shop,
+            orders: shop.orders.map((order) => ({ ...order, total: order.total + 1 })),
+        };
+
+        await analyze(shop, { provider, cache, logger: nullLogger });
+        await analyze(repriced, { provider, cache, logger: nullLogger });
+
+        expect(provider.requests).toHaveLength(3);
+    });
+
+    it('misses when a field is added or the model changes', async () => {
+        const cache = createMemoryCache();
+        const extended = {
+            ...shop,
+            orders: shop.orders.map((order) => ({ ...order, currency: 'EUR' })),
+        };
+        const provider = createScriptedProvider(scriptedStages(await computeStats(extended)));
+
+        await analyze(shop, { provider, cache, logger: nullLogger });
+        await analyze(extended, { provider, cache, logger: nullLogger });
+        await analyze(extended, { provider, cache, model: 'other-model', logger: nullLogger });
+
+        expect(provider.requests).toHaveLength(9);
+    });
+
+    it('persists entries in a directory with the file cache', async () => {
+        const directory = await mkdtemp(join(tmpdir(), 'smart-schema-cache-'));
+
+        try {
+            const provider = createScriptedProvider(scriptedStages(await computeStats(shop)));
+            await analyze(shop, {
+                provider,
+                cache: createFileCache({ directory }),
+                logger: nullLogger,
+            });
+            await analyze(shop, {
+                provider,
+                cache: createFileCache({ directory }),
+                logger: nullLogger,
+            });
+
+            expect(provider.requests).toHaveLength(3);
+            expect(await readdir(directory)).toHaveLength(3);
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('evicts the least recently used memory entry', async () => {
+        const cache = createMemoryCache({ maxEntries: 2 });
+
+        await cache.set('a', '1');
+        await cache.set('b', '2');
+        await cache.get('a');
+        await cache.set('c', '3');
+
+        expect(await cache.get('a')).toBe('1');
+        expect(await cache.get('b')).toBeUndefined();
+        expect(await cache.get('c')).toBe('3');
+    });
+});
+
+describe('fingerprintStats', () => {
+    it('ignores example values and profiles', async () => {
+        const renamed = {
+            ...shop,
+            users: shop.users.map((user) => ({ ...user, name: `${user.name} Jr.` })),
+        };
+
+        expect(fingerprintStats(await computeStats(renamed))).toBe(
+            fingerprintStats(await computeStats(shop))
+        );
+    });
+});
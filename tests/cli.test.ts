@@ -0,0 +1,164 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+interface CliResult {
+    readonly code: number | null;
+    readonly stdout: string;
+    readonly stderr: string;
+}
+
+const CLI = fileURLToPath(new URL('../src/cli.ts', import.meta.url));
+
+/** Runs the CLI from source in a child process, without an API key unless given one. */
+function runCli(args: readonly string[], apiKey?: string): Promise<CliResult> {
+    const { ANTHROPIC_API_KEY: _apiKey, ...env } = process.env;
+
+    return new Promise((resolve, reject) => {
+        const child = spawn(process.execPath, ['--import', 'tsx', CLI, ...args], {
+            env: apiKey === undefined ? env : { ...env, ANTHROPIC_API_KEY: apiKey },
+            timeout: 20_000,
+        });
+        let stdout = '';
+        let stderr = '';
+
+        child.stdout.on('data', (chunk: Buffer) => {
+            stdout += chunk.toString();
+        });
+        child.stderr.on('data', (chunk: Buffer) => {
+            stderr += chunk.toString();
+        });
+        child.on('error', reject);
+        child.on('close', (code) => resolve({ code, stdout, stderr }));
+    });
+}
+
+let directory: string;
+
+beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'smart-schema-cli-'));
+    await writeFile(join(directory, 'prices.csv'), 'sku;price\na-1;3\nb-2;4.5\n');
+    await writeFile(join(directory, 'users.json'), JSON.stringify([{ id: 1 }, { id: 2 }]));
+    await writeFile(join(directory, 'broken.json'), '{"id": 1');
+    await writeFile(join(directory, 'number.json'), '42');
+    await writeFile(
+        join(directory, 'wide.json'),
+        JSON.stringify(
+            Object.fromEntries(
+                Array.from({ length: 201 }, (_, index) => [`t${index}`, [{ id: 1 }]])
+            )
+        )
+    );
+});
+
+afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+});
+
+// Each case starts a Node process, which takes a while on a busy machine.
+describe('smart-schema --delimiter', { timeout: 30_000 }, () => {
+    it('splits CSV cells on the given delimiter', async () => {
+        const result = await runCli(['stats', join(directory, 'prices.csv'), '--delimiter', ';']);
+        const stats = JSON.parse(result.stdout);
+
+        expect(result.code).toBe(0);
+        expect(stats.tables.prices.fields.map((field: { path: string }) => field.path)).toEqual([
+            'price',
+            'sku',
+        ]);
+    });
+
+    it('exits with a usage error for a delimiter parseCsv cannot use', async () => {
+        const result = await runCli(['stats', join(directory, 'prices.csv'), '--delimiter', '"']);
+
+        expect(result.code).toBe(2);
+        expect(result.stdout).toBe('');
+        expect(result.stderr).toContain('--delimiter');
+    });
+});
+
+const path = (name: string): string => join(directory, name);
+
+describe('smart-schema exit codes', { timeout: 30_000 }, () => {
+    it('writes the schema to stdout or --out and exits 0', async () => {
+        const printed = await runCli(['analyze', path('users.json'), '--skip-ai']);
+        const written = await runCli([
+            'analyze',
+            path('users.json'),
+            '--skip-ai',
+            '--out',
+            path('users.schema.json'),
+        ]);
+        const rendered = await runCli(['render', path('users.schema.json'), '--format', 'ts']);
+
+        expect(printed.code).toBe(0);
+        expect(JSON.parse(printed.stdout).tables.root.primaryKey).toEqual(['id']);
+        expect(written).toMatchObject({ code: 0, stdout: '' });
+        expect(JSON.parse(await readFile(path('users.schema.json'), 'utf8'))).toEqual(
+            JSON.parse(printed.stdout)
+        );
+        expect(rendered.code).toBe(0);
+        expect(rendered.stdout).toContain('export interface Root {');
+    });
+
+    it('prints help and exits 0', async () => {
+        const result = await runCli(['--help']);
+
+        expect(result.code).toBe(0);
+        expect(result.stdout).toContain('Usage: smart-schema <command> [options]');
+    });
+
+    it.each([
+        ['no command', []],
+        ['an unknown command', ['convert', 'users.json']],
+        ['an unknown flag', ['stats', 'users.json', '--fast']],
+        ['no API key without --skip-ai', ['analyze', 'users.json']],
+        ['an unknown render format', ['render', 'users.json', '--format', 'xml']],
+        ['a zero --max-rows', ['stats', 'users.json', '--max-rows', '0']],
+        ['a fractional --max-depth', ['stats', 'users.json', '--max-depth', '2.5']],
+        ['a negative --concurrency', ['analyze', 'users.json', '--skip-ai', '--concurrency=-1']],
+        ['a non-numeric --max-rows', ['stats', 'users.json', '--max-rows', 'all']],
+    ])('exits 2 for %s', async (_case, args) => {
+        const result = await runCli(args.map((arg) => (arg.endsWith('.json') ? path(arg) : arg)));
+
+        expect(result.code).toBe(2);
+        expect(result.stdout).toBe('');
+        expect(result.stderr).toContain('Run smart-schema --help for usage.');
+    });
+
+    it('exits 3 for input that is not valid JSON or not tabular', async () => {
+        const broken = await runCli(['stats', path('broken.json')]);
+        const primitive = await runCli(['stats', path('number.json')]);
+
+        expect(broken.code).toBe(3);
+        expect(broken.stderr).toContain('broken.json');
+        expect(primitive.code).toBe(3);
+    });
+
+    it('exits 4 when the dataset is too large to enrich', async () => {
+        const result = await runCli(['analyze', path('wide.json')], 'not-a-real-key');
+
+        expect(result.code).toBe(4);
+        expect(result.stderr).toContain('201 tables');
+    });
+
+    it('exits 6 when the token budget cannot cover the first request', async () => {
+        const result = await runCli(
+            ['analyze', path('users.json'), '--max-tokens', '1'],
+            'not-a-real-key'
+        );
+
+        expect(result.code).toBe(6);
+        expect(result.stdout).toBe('');
+    });
+
+    it('exits 1 for a missing file', async () => {
+        const result = await runCli(['stats', path('missing.json')]);
+
+        expect(result.code).toBe(1);
+        expect(result.stderr).toContain('missing.json');
+    });
+});
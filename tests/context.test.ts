@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, estimateTokens, nullLogger, toPromptContext } from '../src/index.js';
+import { shop } from './helpers.js';
+
+const options = { skipAI: true, logger: nullLogger };
+
+describe('toPromptContext', () => {
+    it('lists tables, keys, typed fields and relationships', async () => {
+        const context = toPromptContext(await analyze(shop, options));
+
+        expect(context).toContain('table orders (one row per id; key: id)');
+        expect(context).toContain(
+            '  total: number [measure; sum; range: 0..72.5] - total (number)'
+        );
+        expect(context).toContain(
+            'relationships\n  orders.user_id -> users.id (many-to-one, 1.00)'
+        );
+    });
+
+    it('gets shorter with each detail level', async () => {
+        const schema = await analyze(shop, options);
+        const [full, standard, minimal] = (['full', 'standard', 'minimal'] as const).map((detail) =>
+            estimateTokens(toPromptContext(schema, { detail }))
+        );
+
+        expect(full).toBeGreaterThan(standard ?? 0);
+        expect(standard).toBeGreaterThan(minimal ?? 0);
+    });
+
+    it('sheds detail to fit maxTokens but keeps essential fields', async () => {
+        const schema = await analyze(shop, options);
+        const full = toPromptContext(schema);
+        const budget = estimateTokens(full) - 20;
+        const context = toPromptContext(schema, { maxTokens: budget });
+
+        expect(estimateTokens(context)).toBeLessThanOrEqual(budget);
+        expect(context).toContain('user_id: int [identifier]');
+        expect(context).toContain('orders.user_id -> users.id');
+    });
+});
@@ -0,0 +1,109 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { InvalidInputError, parseCsv, readCsvFiles } from '../src/index.js';
+
+let directory: string;
+
+beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'smart-schema-csv-'));
+});
+
+afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+});
+
+describe('parseCsv', () => {
+    it('reads quoted cells with delimiters, escaped quotes and line breaks', () => {
+        const rows = parseCsv('name,note\n"Smith, Jo","said ""hi"""\n"Lee","two\nlines"\n\nKim,\n');
+
+        expect(rows).toEqual([
+            { name: 'Smith, Jo', note: 'said "hi"' },
+            { name: 'Lee', note: 'two\nlines' },
+            { name: 'Kim', note: null },
+        ]);
+    });
+
+    it('coerces numbers, booleans, empty cells and dates per column', () => {
+        const rows = parseCsv(
+            'id,price,active,shipped,label\n1,9.50,true,2024/1/15,A\n2,,FALSE,2024-02-03 10:30,\n'
+        );
+
+        expect(rows).toEqual([
+            { id: 1, price: 9.5, active: true, shipped: '2024-01-15', label: 'A' },
+            { id: 2, price: null, active: false, shipped: '2024-02-03T10:30:00', label: null },
+        ]);
+    });
+
+    it('keeps a column as strings unless every cell converts', () => {
+        const rows = parseCsv(
+            'zip,code,account\n02134,7,12345678901234567890\n10001,X7,98765432109876543210\n'
+        );
+
+        expect(rows.map(({ zip, code, account }) => [zip, code, account])).toEqual([
+            ['02134', '7', '12345678901234567890'],
+            ['10001', 'X7', '98765432109876543210'],
+        ]);
+    });
+
+    it('reads ambiguous dates month first unless told otherwise', () => {
+        const text = 'day\n01/02/2024\n03/04/2024\n';
+
+        expect(parseCsv(text).map((row) => row.day)).toEqual(['2024-01-02', '2024-03-04']);
+        expect(parseCsv(text, { dayFirst: true }).map((row) => row.day)).toEqual([
+            '2024-02-01',
+            '2024-04-03',
+        ]);
+        expect(parseCsv('day\n01/02/2024\n25/12/2024\n').map((row) => row.day)).toEqual([
+            '2024-02-01',
+            '2024-12-25',
+        ]);
+    });
+
+    it('leaves cells as strings with coerce off', () => {
+        expect(parseCsv('id,active\n1,true\n', { coerce: false })).toEqual([
+            { id: '1', active: 'true' },
+        ]);
+    });
+
+    it('rejects a row with more cells than the header', () => {
+        expect(() => parseCsv('a,b\n1,2\n1,2,3\n')).toThrow(
+            expect.objectContaining({ name: 'InvalidInputError', reason: 'malformed' })
+        );
+    });
+
+    it('rejects an invalid delimiter with InvalidInputError', () => {
+        for (const delimiter of ['', '"', '\n']) {
+            expect(() => parseCsv('a\n1\n', { delimiter })).toThrow(InvalidInputError);
+        }
+    });
+});
+
+describe('readCsvFiles', () => {
+    it('names tables after the files and splits .tsv files on tabs', async () => {
+        const users = join(directory, 'users.csv');
+        const orders = join(directory, 'orders.TSV');
+        await writeFile(users, 'id,name\n1,Ann\n2,Bo\n');
+        await writeFile(orders, 'id\tuser_id\ttotal\n10\t1\t4.5\n');
+
+        const tables = await readCsvFiles([users, orders]);
+
+        expect(tables).toEqual({
+            users: [
+                { id: 1, name: 'Ann' },
+                { id: 2, name: 'Bo' },
+            ],
+            orders: [{ id: 10, user_id: 1, total: 4.5 }],
+        });
+    });
+
+    it('uses an explicit delimiter for every file', async () => {
+        const prices = join(directory, 'prices.tsv');
+        await writeFile(prices, 'sku;price\na-1;3\n');
+
+        expect(await readCsvFiles([prices], { delimiter: ';' })).toEqual({
+            prices: [{ sku: 'a-1', price: 3 }],
+        });
+    });
+});
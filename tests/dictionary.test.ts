@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, nullLogger, renderDataDictionary } from '../src/index.js';
+import { shop } from './helpers.js';
+
+const options = { skipAI: true, logger: nullLogger };
+
+describe('renderDataDictionary', () => {
+    it('renders Markdown with a table of contents, field tables and relationships', async () => {
+        const markdown = renderDataDictionary(await analyze(shop, options), {
+            format: 'markdown',
+        });
+
+        expect(markdown).toMatch(/^# Data dictionary: unknown\n/);
+        expect(markdown).toContain('- [orders](#table-orders)');
+        expect(markdown).toContain('Domain: unknown. Grain: one row per id.');
+        expect(markdown).toContain(
+            '| Path | Type | Role | Unit | Aggregation | PII | Description |'
+        );
+        expect(markdown).toContain('| email | string (email) | text |  |  | **PII: email** |');
+        expect(markdown).toContain('Values: open, paid.');
+        expect(markdown).toContain('## Relationships');
+    });
+
+    it('escapes Markdown table syntax', async () => {
+        const markdown = renderDataDictionary(
+            await analyze({ 'a|b': [{ 'x|y': 1 }, { 'x|y': 2 }] }, options),
+            { format: 'markdown' }
+        );
+
+        expect(markdown).toContain('| x\\|y |');
+    });
+
+    it('renders a standalone HTML page with escaped text', async () => {
+        const html = renderDataDictionary(await analyze({ '<orders>': shop.orders }, options), {
+            format: 'html',
+            title: 'Shop & co',
+        });
+
+        expect(html).toMatch(/^<!DOCTYPE html>/);
+        expect(html).toContain('<title>Shop &amp; co</title>');
+        expect(html).toContain('&lt;orders&gt;');
+        expect(html).not.toContain('<orders>');
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, diffSchemas, nullLogger } from '../src/index.js';
+
+const options = { skipAI: true, logger: nullLogger };
+
+const users = [
+    { id: 1, email: 'a@example.com', age: 30 },
+    { id: 2, email: 'b@example.com', age: 41 },
+];
+
+describe('diffSchemas', () => {
+    it('reports no changes between identical schemas', async () => {
+        const schema = await analyze({ users }, options);
+
+        expect(diffSchemas(schema, schema)).toEqual({ changes: [], breaking: false });
+    });
+
+    it('treats a removed field as breaking and an added field as not', async () => {
+        const previous = await analyze({ users }, options);
+        const next = await analyze(
+            { users: users.map(({ id, age }) => ({ id, age, name: 'someone' })) },
+            options
+        );
+
+        const diff = diffSchemas(previous, next);
+
+        expect(diff.breaking).toBe(true);
+        expect(diff.changes).toContainEqual(
+            expect.objectContaining({ kind: 'field-removed', path: 'email', breaking: true })
+        );
+        expect(diff.changes).toContainEqual(
+            expect.objectContaining({ kind: 'field-added', path: 'name', breaking: false })
+        );
+    });
+
+    it('treats widening int to number as non-breaking', async () => {
+        const previous = await analyze({ users }, options);
+        const next = await analyze(
+            { users: users.map((user) => ({ ...user, age: user.age + 0.5 })) },
+            options
+        );
+
+        const change = diffSchemas(previous, next).changes.find(
+            (candidate) => candidate.kind === 'type-changed'
+        );
+
+        expect(change).toMatchObject({ before: 'int', after: 'number', breaking: false });
+    });
+
+    it('diffs tables named like Object.prototype members', async () => {
+        const previous = await analyze({ toString: users }, options);
+        const next = await analyze({ constructor: users }, options);
+
+        const kinds = diffSchemas(previous, next).changes.map((change) =>
+            change.kind === 'table-added' || change.kind === 'table-removed'
+                ? `${change.kind} ${change.table}`
+                : change.kind
+        );
+
+        expect(kinds).toEqual(['table-removed toString', 'table-added constructor']);
+    });
+});
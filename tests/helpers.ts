@@ -0,0 +1,128 @@
+import type {
+    CompletionProvider,
+    CompletionRequest,
+    CompletionResponse,
+    CompletionStage,
+    StatsMultiTableSchema,
+} from '../src/index.js';
+
+/** Tool arguments for a request, or a string to answer in plain text. */
+export type ScriptedResponse = (request: CompletionRequest) => unknown;
+
+export interface ScriptedProvider extends CompletionProvider {
+    readonly requests: CompletionRequest[];
+}
+
+export const SCRIPTED_USAGE = { inputTokens: 100, outputTokens: 20 } as const;
+
+/**
+ * A provider with tool support that answers each stage from `responses`
+ * and records every request it receives.
+ */
+export function createScriptedProvider(
+    responses: Readonly<Record<CompletionStage, ScriptedResponse>>
+): ScriptedProvider {
+    const requests: CompletionRequest[] = [];
+
+    return {
+        name: 'scripted',
+        model: 'scripted',
+        supportsTools: true,
+        requests,
+        async complete(request): Promise<CompletionResponse> {
+            requests.push(request);
+            const answer = responses[request.stage](request);
+
+            if (typeof answer === 'string') {
+                return { text: answer, model: 'scripted', usage: SCRIPTED_USAGE };
+            }
+
+            return {
+                text: '',
+                model: 'scripted',
+                usage: SCRIPTED_USAGE,
+                toolInput: answer,
+            };
+        },
+    };
+}
+
+/** Describes every field of `stats` as a dimension. */
+export function describeAllFields(stats: StatsMultiTableSchema): unknown {
+    return {
+        tables: Object.fromEntries(
+            Object.entries(stats.tables).map(([table, { fields }]) => [
+                table,
+                Object.fromEntries(
+                    fields.map((field) => [
+                        field.path,
+                        {
+                            role: 'dimension',
+                            description: `${field.path} of ${table}`,
+                            pii: false,
+                            unit: null,
+                            aggregation: 'none',
+                        },
+                    ])
+                ),
+            ])
+        ),
+    };
+}
+
+/** A valid domain response covering every table of `stats`. */
+export function describeDomain(
+    stats: StatsMultiTableSchema,
+    dataGrain = 'one row per thing'
+): unknown {
+    return {
+        domain: 'testing',
+        description: 'Scripted test data',
+        entities: [],
+        tables: Object.fromEntries(
+            Object.keys(stats.tables).map((table) => [
+                table,
+                {
+                    description: `The ${table} table`,
+                    dataGrain,
+                    capabilities: {
+                        timeSeries: null,
+                        measures: [],
+                        dimensions: [],
+                        searchable: [],
+                    },
+                },
+            ])
+        ),
+    };
+}
+
+/** Scripted answers for every stage, each replaceable through `overrides`. */
+export function scriptedStages(
+    stats: StatsMultiTableSchema,
+    overrides: Partial<Record<CompletionStage, ScriptedResponse>> = {}
+): Record<CompletionStage, ScriptedResponse> {
+    return {
+        fields: () => describeAllFields(stats),
+        relationships: () => ({ relationships: [] }),
+        domain: () => describeDomain(stats),
+        ...overrides,
+    };
+}
+
+/** Users and their orders, linked by `orders.user_id`. */
+export const shop = {
+    users: Array.from({ length: 20 }, (_, index) => ({
+        id: index + 1,
+        email: `user${index}@example.com`,
+        name: `User ${index}`,
+        address: { city: index % 2 === 0 ? 'Lviv' : 'Kyiv' },
+    })),
+    orders: Array.from({ length: 30 }, (_, index) => ({
+        id: index + 1,
+        user_id: (index % 20) + 1,
+        total: index * 2.5,
+        status: index % 2 === 0 ? 'open' : 'paid',
+        created_at: `2024-01-${String(1 + (index % 28)).padStart(2, '0')}T10:00:00Z`,
+    })),
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, computeStats, type MultiTableSchema, nullLogger } from '../src/index.js';
+import { createScriptedProvider, describeAllFields, scriptedStages, shop } from './helpers.js';
+
+/** Rewrites every field description so reused enrichment is recognizable. */
+function markDescriptions(schema: MultiTableSchema): MultiTableSchema {
+    const tables = Object.fromEntries(
+        Object.entries(schema.tables).map(([name, table]) => [
+            name,
+            {
+                ...table,
+                fields: table.fields.map((field) => ({
+                    ...field,
+                    description: `previous: ${field.path}`,
+                })),
+            },
+        ])
+    );
+
+    return { ...schema, tables };
+}
+
+describe('incremental enrichment', () => {
+    it('reuses everything when nothing changed', async () => {
+        const provider = createScriptedProvider(scriptedStages(await computeStats(shop)));
+        const previousSchema = markDescriptions(
+            await analyze(shop, { provider, logger: nullLogger })
+        );
+
+        const schema = await analyze(shop, { provider, previousSchema, logger: nullLogger });
+
+        expect(provider.requests).toHaveLength(3);
+        expect(schema.tables.users?.fields[0]?.description).toMatch(/^previous: /);
+        expect(schema.domain).toBe(previousSchema.domain);
+    });
+
+    it('sends only new fields to the model and keeps the rest', async () => {
+        const extended = {
+            ...shop,
+            orders: shop.orders.map((order) => ({ ...order, currency: 'EUR' })),
+        };
+        const first = createScriptedProvider(scriptedStages(await computeStats(shop)));
+        const previousSchema = markDescriptions(
+            await analyze(shop, { provider: first, logger: nullLogger })
+        );
+        const stats = await computeStats(extended);
+        const newFields = {
+            tables: {
+                orders: {
+                    fields: (stats.tables.orders?.fields ?? []).filter(
+                        (field) => field.path === 'currency'
+                    ),
+                },
+            },
+        };
+        const provider = createScriptedProvider(
+            scriptedStages(stats, { fields: () => describeAllFields(newFields) })
+        );
+
+        const schema = await analyze(extended, { provider, previousSchema, logger: nullLogger });
+        const fieldsPrompt = provider.requests.find((request) => request.stage === 'fields')
+            ?.messages[0]?.content;
+        const orders = schema.tables.orders?.fields ?? [];
+
+        expect(provider.requests.map((request) => request.stage)).toEqual([
+            'fields',
+            'relationships',
+            'domain',
+        ]);
+        expect(fieldsPrompt).toContain('currency');
+        expect(fieldsPrompt).not.toContain('created_at');
+        expect(orders.find((field) => field.path === 'currency')?.description).toBe(
+            'currency of orders'
+        );
+        expect(orders.find((field) => field.path === 'total')?.description).toBe('previous: total');
+    });
+
+    it('re-enriches a field whose type changed', async () => {
+        const retyped = {
+            ...shop,
+            orders: shop.orders.map((order) => ({ ...order, total: String(order.total) })),
+        };
+        const provider = createScriptedProvider(scriptedStages(await computeStats(retyped)));
+        const previousSchema = markDescriptions(
+            await analyze(shop, { provider, logger: nullLogger })
+        );
+
+        const schema = await analyze(retyped, { provider, previousSchema, logger: nullLogger });
+        const total = schema.tables.orders?.fields.find((field) => field.path === 'total');
+
+        expect(total).toMatchObject({ type: 'string', description: 'total of orders' });
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, nullLogger, toJSONSchema } from '../src/index.js';
+
+const options = { skipAI: true, logger: nullLogger };
+
+const rows = Array.from({ length: 12 }, (_, index) => ({
+    id: index + 1,
+    status: index % 2 === 0 ? 'paid' : 'open',
+    nick: index % 3 === 0 ? null : `nick${index}`,
+    code: index % 2 === 0 ? index : `C${index}`,
+    address: { city: 'Lviv' },
+    tags: ['a'],
+}));
+
+describe('toJSONSchema', () => {
+    it('emits one draft 2020-12 document per table', async () => {
+        const documents = toJSONSchema(
+            await analyze({ orders: rows, users: [{ id: 1 }] }, options)
+        );
+
+        expect(Object.keys(documents)).toEqual(['orders', 'users']);
+        expect(documents.orders).toMatchObject({
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            title: 'orders',
+            type: 'object',
+            'x-primary-key': ['id'],
+        });
+    });
+
+    it('maps types, nullability, nesting, arrays and enums', async () => {
+        const { root } = toJSONSchema(await analyze(rows, options));
+        const properties = root?.properties ?? {};
+
+        expect(properties.id).toMatchObject({ type: 'integer', 'x-role': 'identifier' });
+        expect(properties.nick).toMatchObject({ type: ['string', 'null'] });
+        expect(properties.status).toMatchObject({ type: 'string', enum: ['open', 'paid'] });
+        expect(properties.address?.properties?.city).toMatchObject({ type: 'string' });
+        expect(properties.tags).toMatchObject({ type: 'array', items: { type: 'string' } });
+    });
+
+    it('lists the observed types of a mixed field', async () => {
+        const { root } = toJSONSchema(await analyze(rows, { ...options, mixedTypeThreshold: 0 }));
+
+        expect(root?.properties?.code?.type).toEqual(['number', 'string']);
+    });
+
+    it('leaves every key optional, as validate does', async () => {
+        const { root } = toJSONSchema(await analyze(rows, options));
+
+        expect(root).not.toHaveProperty('required');
+    });
+});
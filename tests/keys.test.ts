@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, computeStats, nullLogger } from '../src/index.js';
+import { createScriptedProvider, describeDomain, scriptedStages } from './helpers.js';
+
+describe('key detection', () => {
+    it('picks a unique identifier column as the primary key', async () => {
+        const rows = Array.from({ length: 20 }, (_, index) => ({
+            id: index + 1,
+            name: `item${index % 5}`,
+        }));
+        const stats = await computeStats(rows);
+
+        expect(stats.tables.root?.primaryKey).toEqual(['id']);
+    });
+
+    it('finds a composite key when no single column is unique', async () => {
+        const rows = Array.from({ length: 12 }, (_, index) => ({
+            store_id: Math.floor(index / 4),
+            date: `2024-01-0${(index % 4) + 1}`,
+            sales: 100,
+        }));
+        const stats = await computeStats(rows);
+
+        expect(stats.tables.root?.primaryKey).toEqual(['store_id', 'date']);
+    });
+
+    it('reports no key when rows repeat', async () => {
+        const rows = [
+            { color: 'red', size: 1 },
+            { color: 'red', size: 1 },
+        ];
+        const stats = await computeStats(rows);
+
+        expect(stats.tables.root?.primaryKey).toBeUndefined();
+    });
+
+    it('derives the data grain from the key without AI', async () => {
+        const rows = [{ sku: 'a-1' }, { sku: 'b-2' }, { sku: 'c-3' }];
+        const schema = await analyze(rows, { skipAI: true, logger: nullLogger });
+
+        expect(schema.tables.root?.dataGrain).toBe('one row per sku');
+    });
+});
+
+describe('data grain with AI enrichment', () => {
+    const data = {
+        products: [
+            { sku: 'a-1', name: 'Apple' },
+            { sku: 'b-2', name: 'Banana' },
+        ],
+        events: [
+            { kind: 'view', page: 'home' },
+            { kind: 'view', page: 'home' },
+        ],
+    };
+
+    it('describes keyed tables from the key and keyless tables from the model', async () => {
+        const stats = await computeStats(data);
+        const provider = createScriptedProvider(
+            scriptedStages(stats, { domain: () => describeDomain(stats, 'one row per page view') })
+        );
+
+        const schema = await analyze(data, { provider, logger: nullLogger });
+
+        expect(schema.tables.products?.dataGrain).toBe('one row per sku');
+        expect(schema.tables.events?.dataGrain).toBe('one row per page view');
+    });
+});
@@ -0,0 +1,145 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { analyze, computeStats, nullLogger, type StatsField } from '../src/index.js';
+
+function field(fields: readonly StatsField[], path: string): StatsField {
+    const match = fields.find((candidate) => candidate.path === path);
+
+    if (!match) {
+        throw new Error(`No field ${path}`);
+    }
+
+    return match;
+}
+
+describe('field profiles', () => {
+    const rows = [
+        { price: 10, name: 'ab', createdAt: '2024-03-01', note: null },
+        { price: 20, name: 'abcd', createdAt: '2024-01-15', note: 'x' },
+        { price: 30, name: 'abc', createdAt: '2024-02-10', note: null },
+        { price: 40, name: 'ab', createdAt: '2024-01-31', note: null },
+    ];
+
+    it('profiles numbers with min, max, mean and percentiles', async () => {
+        const stats = await computeStats(rows);
+        const profile = field(stats.tables.root?.fields ?? [], 'price').profile;
+
+        expect(profile?.valueCount).toBe(4);
+        expect(profile?.distinctCount).toBe(4);
+        expect(profile?.numeric).toMatchObject({ min: 10, max: 40, mean: 25, p50: 25 });
+        expect(profile?.numeric?.stddev).toBeCloseTo(11.1803, 3);
+    });
+
+    it('profiles string lengths and distinct counts', async () => {
+        const stats = await computeStats(rows);
+        const profile = field(stats.tables.root?.fields ?? [], 'name').profile;
+
+        expect(profile?.length).toEqual({ min: 2, max: 4 });
+        expect(profile?.distinctCount).toBe(3);
+    });
+
+    it('profiles date ranges', async () => {
+        const stats = await computeStats(rows);
+        const profile = field(stats.tables.root?.fields ?? [], 'createdAt').profile;
+
+        expect(profile?.dateRange).toEqual({ earliest: '2024-01-15', latest: '2024-03-01' });
+    });
+
+    it('counts only non-null values', async () => {
+        const stats = await computeStats(rows);
+        const note = field(stats.tables.root?.fields ?? [], 'note');
+
+        expect(note.nullable).toBe(true);
+        expect(note.profile?.valueCount).toBe(1);
+    });
+});
+
+describe('enum detection', () => {
+    const rows = Array.from({ length: 30 }, (_, index) => ({
+        id: `order-${index}`,
+        status: index % 3 === 0 ? 'shipped' : 'pending',
+        quantity: (index % 4) + 1,
+    }));
+
+    it('reports low-cardinality strings as enums, most frequent first', async () => {
+        const stats = await computeStats(rows);
+        const status = field(stats.tables.root?.fields ?? [], 'status');
+
+        expect(status.enumValues).toEqual([
+            { value: 'pending', count: 20 },
+            { value: 'shipped', count: 10 },
+        ]);
+    });
+
+    it('does not treat unique strings as enums', async () => {
+        const stats = await computeStats(rows);
+
+        expect(field(stats.tables.root?.fields ?? [], 'id').enumValues).toBeUndefined();
+    });
+
+    it('respects enumThreshold', async () => {
+        const stats = await computeStats(rows, { enumThreshold: 1 });
+
+        expect(field(stats.tables.root?.fields ?? [], 'status').enumValues).toBeUndefined();
+    });
+
+    it('reports top values for repeated integers', async () => {
+        const stats = await computeStats(rows);
+        const quantity = field(stats.tables.root?.fields ?? [], 'quantity');
+
+        expect(quantity.enumValues).toBeUndefined();
+        expect(quantity.profile?.topValues?.[0]).toEqual({ value: 1, count: 8 });
+    });
+
+    it('keeps enum values on the analyzed schema', async () => {
+        const schema = await analyze(rows, { skipAI: true, logger: nullLogger });
+        const status = schema.tables.root?.fields.find((candidate) => candidate.path === 'status');
+
+        expect(status?.enumValues?.map((entry) => entry.value)).toEqual(['pending', 'shipped']);
+    });
+});
+
+describe('enum detection on key columns', () => {
+    it('skips identifier names such as *_id and *_sku', async () => {
+        const rows = Array.from({ length: 30 }, (_, index) => ({
+            warehouse_id: `W${index % 2}`,
+            productSku: `SKU-${index % 3}`,
+            sku: `S${index % 4}`,
+            status: index % 2 === 0 ? 'open' : 'paid',
+        }));
+        const fields = (await computeStats(rows)).tables.root?.fields ?? [];
+
+        expect(field(fields, 'warehouse_id').enumValues).toBeUndefined();
+        expect(field(fields, 'productSku').enumValues).toBeUndefined();
+        expect(field(fields, 'sku').enumValues).toBeUndefined();
+        expect(field(fields, 'status').enumValues).toHaveLength(2);
+    });
+
+    it('keeps candidate key columns open', async () => {
+        const rows = Array.from({ length: 30 }, (_, index) => ({
+            order_no: 100 + Math.floor(index / 3),
+            line: ['a', 'b', 'c'][index % 3],
+        }));
+        const table = (await computeStats(rows)).tables.root;
+        const line = field(table?.fields ?? [], 'line');
+
+        expect(table?.primaryKey).toEqual(['order_no', 'line']);
+        expect(line.enumValues).toBeUndefined();
+        expect(line.profile?.topValues?.[0]).toEqual({ value: 'a', count: 10 });
+    });
+
+    it('keeps columns that join tables open', async () => {
+        const shop = JSON.parse(
+            readFileSync(new URL('./data/shop.json', import.meta.url), 'utf-8')
+        ) as Record<string, Record<string, unknown>[]>;
+        const stats = await computeStats(shop);
+        const productSku = field(stats.tables.orders?.fields ?? [], 'product_sku');
+
+        expect(stats.relationships?.map(({ from, to }) => `${from} -> ${to}`)).toContain(
+            'orders.product_sku -> products.sku'
+        );
+        expect(productSku.enumValues).toBeUndefined();
+        expect(productSku.profile?.topValues).toHaveLength(5);
+        expect(field(stats.tables.orders?.fields ?? [], 'status').enumValues).toBeDefined();
+    });
+});
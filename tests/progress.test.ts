@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import {
+    APIError,
+    analyze,
+    type CompletionProvider,
+    computeStats,
+    createMemoryCache,
+    nullLogger,
+    type ProgressEvent,
+} from '../src/index.js';
+import { createScriptedProvider, SCRIPTED_USAGE, scriptedStages, shop } from './helpers.js';
+
+const stats = await computeStats(shop);
+
+function recordEvents(): { events: ProgressEvent[]; onProgress: (event: ProgressEvent) => void } {
+    const events: ProgressEvent[] = [];
+    return { events, onProgress: (event) => events.push(event) };
+}
+
+function ofKind<K extends ProgressEvent['kind']>(
+    events: readonly ProgressEvent[],
+    kind: K
+): Extract<ProgressEvent, { kind: K }>[] {
+    return events.filter(
+        (event): event is Extract<ProgressEvent, { kind: K }> => event.kind === kind
+    );
+}
+
+describe('progress events', () => {
+    it('reports stats per table with row counts', async () => {
+        const { events, onProgress } = recordEvents();
+
+        await computeStats(shop, { maxRows: 10, onProgress });
+
+        expect(ofKind(events, 'stats-started')).toEqual([
+            { kind: 'stats-started', table: 'users', rowCount: 20 },
+            { kind: 'stats-started', table: 'orders', rowCount: 30 },
+        ]);
+        expect(ofKind(events, 'stats-completed')).toEqual([
+            expect.objectContaining({ table: 'users', rowCount: 20, sampledRowCount: 10 }),
+            expect.objectContaining({ table: 'orders', rowCount: 30, sampledRowCount: 10 }),
+        ]);
+    });
+
+    it('reports every stage with its requests and tokens', async () => {
+        const { events, onProgress } = recordEvents();
+        const provider = createScriptedProvider(scriptedStages(stats));
+
+        await analyze(shop, { provider, onProgress, logger: nullLogger });
+
+        expect(ofKind(events, 'stage-started').map(({ stage }) => stage)).toEqual([
+            'fields',
+            'relationships',
+            'domain',
+        ]);
+        expect(ofKind(events, 'stage-completed')).toEqual(
+            ['fields', 'relationships', 'domain'].map((stage) =>
+                expect.objectContaining({
+                    stage,
+                    requests: 1,
+                    inputTokens: SCRIPTED_USAGE.inputTokens,
+                    outputTokens: SCRIPTED_USAGE.outputTokens,
+                })
+            )
+        );
+        expect(ofKind(events, 'request-completed')).toHaveLength(3);
+    });
+
+    it('reports retries, repairs and cache hits', async () => {
+        const cache = createMemoryCache();
+        let relationshipFailures = 1;
+        let domainCalls = 0;
+        const provider = createScriptedProvider(
+            scriptedStages(stats, {
+                relationships: () => {
+                    if (relationshipFailures-- > 0) {
+                        throw new APIError('Overloaded', 529, true);
+                    }
+                    return { relationships: [] };
+                },
+                domain: (request) =>
+                    domainCalls++ === 0
+                        ? { domain: 'testing' }
+                        : scriptedStages(stats).domain(request),
+            })
+        );
+        const retry = { baseDelayMs: 1, maxDelayMs: 1 };
+
+        const first = recordEvents();
+        await analyze(shop, {
+            provider,
+            cache,
+            retry,
+            onProgress: first.onProgress,
+            logger: nullLogger,
+        });
+        const second = recordEvents();
+        await analyze(shop, {
+            provider,
+            cache,
+            retry,
+            onProgress: second.onProgress,
+            logger: nullLogger,
+        });
+
+        expect(ofKind(first.events, 'request-retry')).toEqual([
+            expect.objectContaining({ stage: 'relationships', attempt: 1, error: 'Overloaded' }),
+        ]);
+        expect(ofKind(first.events, 'response-repair')).toEqual([
+            expect.objectContaining({ stage: 'domain', attempt: 1 }),
+        ]);
+        expect(ofKind(second.events, 'cache-hit').map(({ stage }) => stage)).toEqual([
+            'fields',
+            'relationships',
+            'domain',
+        ]);
+    });
+});
+
+describe('cancellation', () => {
+    it('rejects at once when the signal is already aborted', async () => {
+        const provider = createScriptedProvider(scriptedStages(stats));
+        const controller = new AbortController();
+        controller.abort(new Error('Cancelled'));
+
+        await expect(
+            analyze(shop, { provider, signal: controller.signal, logger: nullLogger })
+        ).rejects.toThrow('Cancelled');
+        expect(provider.requests).toEqual([]);
+    });
+
+    it('cancels a request in flight', async () => {
+        const controller = new AbortController();
+        const provider: CompletionProvider = {
+            name: 'hanging',
+            model: 'hanging',
+            supportsTools: true,
+            complete: (request) =>
+                new Promise((_, reject) => {
+                    request.signal?.addEventListener('abort', () => reject(request.signal?.reason));
+                    setTimeout(() => controller.abort(new Error('Cancelled')), 0);
+                }),
+        };
+
+        await expect(
+            analyze(shop, { provider, signal: controller.signal, logger: nullLogger })
+        ).rejects.toThrow('Cancelled');
+    });
+
+    it('stops profiling a large table part way through', async () => {
+        const controller = new AbortController();
+        const { events, onProgress } = recordEvents();
+        const rows = Array.from({ length: 5_000 }, (_, index) => ({
+            id: index,
+            name: `n${index}`,
+        }));
+
+        expect(() =>
+            computeStats(rows, {
+                signal: controller.signal,
+                onProgress: (event) => {
+                    onProgress(event);
+                    controller.abort(new Error('Cancelled'));
+                },
+            })
+        ).toThrow('Cancelled');
+        expect(ofKind(events, 'stats-completed')).toEqual([]);
+    });
+
+    it('stops the key search once the signal aborts', async () => {
+        const controller = new AbortController();
+        const rows: Record<string, unknown>[] = Array.from({ length: 1_500 }, (_, index) => ({
+            id: index,
+        }));
+        // The last row aborts when read, after the last check of the field pass.
+        Object.defineProperty(rows[rows.length - 1], 'name', {
+            enumerable: true,
+            get: () => {
+                controller.abort(new Error('Cancelled'));
+                return 'last';
+            },
+        });
+        const { events, onProgress } = recordEvents();
+
+        expect(() => computeStats(rows, { signal: controller.signal, onProgress })).toThrow(
+            'Cancelled'
+        );
+        expect(ofKind(events, 'stats-completed')).toEqual([]);
+    });
+});
@@ -0,0 +1,248 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+    APIError,
+    analyze,
+    type CompletionRequest,
+    computeStats,
+    createOpenAICompatibleProvider,
+    nullLogger,
+} from '../src/index.js';
+import { createScriptedProvider, type ScriptedResponse, scriptedStages, shop } from './helpers.js';
+
+interface ReceivedRequest {
+    readonly url: string | undefined;
+    readonly headers: IncomingHttpHeaders;
+    readonly body: Record<string, unknown>;
+}
+
+interface ChatServer {
+    readonly baseURL: string;
+    readonly received: ReceivedRequest[];
+}
+
+let server: Server | undefined;
+
+/** Serves `reply` as the chat completions endpoint of a local server. */
+async function startChatServer(status: number, reply: unknown): Promise<ChatServer> {
+    const received: ReceivedRequest[] = [];
+
+    server = createServer((request, response) => {
+        let text = '';
+        request.on('data', (chunk: Buffer) => {
+            text += chunk.toString();
+        });
+        request.on('end', () => {
+            received.push({ url: request.url, headers: request.headers, body: JSON.parse(text) });
+            response.writeHead(status, { 'content-type': 'application/json' });
+            response.end(JSON.stringify(reply));
+        });
+    });
+
+    await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return { baseURL: `http://127.0.0.1:${port}/v1/`, received };
+}
+
+async function stopChatServer(): Promise<void> {
+    const running = server;
+    server = undefined;
+
+    if (running) {
+        // fetch keeps connections alive, which would hold `close` open.
+        running.closeAllConnections();
+        await new Promise((resolve) => running.close(resolve));
+    }
+}
+
+afterEach(stopChatServer);
+
+const request: CompletionRequest = {
+    stage: 'fields',
+    maxTokens: 100,
+    temperature: 0,
+    messages: [{ role: 'user', content: 'Describe the fields' }],
+};
+
+const toolRequest: CompletionRequest = {
+    ...request,
+    tool: {
+        name: 'submit_field_enrichment',
+        description: 'Submit the fields',
+        inputSchema: { type: 'object', properties: { tables: { type: 'object' } } },
+    },
+};
+
+describe('createOpenAICompatibleProvider', () => {
+    it('posts chat completions and reads text and usage', async () => {
+        const chat = await startChatServer(200, {
+            model: 'local-model-v2',
+            choices: [{ message: { content: '{"tables":{}}' } }],
+            usage: { prompt_tokens: 12, completion_tokens: 3 },
+        });
+        const provider = createOpenAICompatibleProvider({
+            baseURL: chat.baseURL,
+            model: 'local-model',
+            apiKey: 'secret',
+            headers: { 'x-team': 'data' },
+        });
+
+        const response = await provider.complete(request);
+
+        expect(response).toEqual({
+            text: '{"tables":{}}',
+            model: 'local-model-v2',
+            usage: { inputTokens: 12, outputTokens: 3 },
+        });
+        expect(chat.received[0]?.url).toBe('/v1/chat/completions');
+        expect(chat.received[0]?.headers).toMatchObject({
+            authorization: 'Bearer secret',
+            'x-team': 'data',
+        });
+        expect(chat.received[0]?.body).toEqual({
+            model: 'local-model',
+            max_tokens: 100,
+            temperature: 0,
+            messages: [{ role: 'user', content: 'Describe the fields' }],
+        });
+    });
+
+    it('forces the tool call when tools are enabled and reads its arguments', async () => {
+        const chat = await startChatServer(200, {
+            choices: [
+                {
+                    message: {
+                        content: null,
+                        tool_calls: [{ function: { arguments: '{"tables":{"users":{}}}' } }],
+                    },
+                },
+            ],
+        });
+        const provider = createOpenAICompatibleProvider({
+            baseURL: chat.baseURL,
+            model: 'local-model',
+            supportsTools: true,
+        });
+
+        const response = await provider.complete(toolRequest);
+
+        expect(response).toMatchObject({ text: '', toolInput: { tables: { users: {} } } });
+        expect(chat.received[0]?.body).toMatchObject({
+            tools: [
+                {
+                    type: 'function',
+                    function: {
+                        name: 'submit_field_enrichment',
+                        parameters: toolRequest.tool?.inputSchema,
+                    },
+                },
+            ],
+            tool_choice: { type: 'function', function: { name: 'submit_field_enrichment' } },
+        });
+    });
+
+    it('leaves the tool out unless tools are enabled', async () => {
+        const chat = await startChatServer(200, {
+            choices: [{ message: { content: '{"tables":{}}' } }],
+        });
+        const provider = createOpenAICompatibleProvider({
+            baseURL: chat.baseURL,
+            model: 'local-model',
+        });
+
+        await provider.complete(toolRequest);
+
+        expect(provider.supportsTools).toBe(false);
+        expect(chat.received[0]?.body).not.toHaveProperty('tools');
+        expect(chat.received[0]?.body).not.toHaveProperty('tool_choice');
+    });
+
+    it('marks server errors retryable and client errors not', async () => {
+        const unavailable = await startChatServer(503, { error: 'busy' });
+        const failing = createOpenAICompatibleProvider({
+            baseURL: unavailable.baseURL,
+            model: 'local-model',
+        });
+
+        await expect(failing.complete(request)).rejects.toMatchObject({
+            name: 'APIError',
+            statusCode: 503,
+            retryable: true,
+        });
+
+        await stopChatServer();
+        const invalid = await startChatServer(400, { error: 'bad request' });
+        const rejecting = createOpenAICompatibleProvider({
+            baseURL: invalid.baseURL,
+            model: 'local-model',
+        });
+
+        const error = await rejecting.complete(request).catch((caught: unknown) => caught);
+        expect(error).toBeInstanceOf(APIError);
+        expect(error).toMatchObject({ statusCode: 400, retryable: false });
+    });
+});
+
+describe('custom providers', () => {
+    it('run every enrichment stage through the given provider', async () => {
+        const stats = await computeStats(shop);
+        const provider = createScriptedProvider(scriptedStages(stats));
+
+        const schema = await analyze(shop, { provider, logger: nullLogger });
+
+        expect(provider.requests.map((sent) => sent.stage)).toEqual([
+            'fields',
+            'relationships',
+            'domain',
+        ]);
+        expect(schema.domain).toBe('testing');
+        expect(schema.tables.orders?.fields.find((field) => field.path === 'total')).toMatchObject({
+            description: 'total of orders',
+        });
+    });
+
+    it('receive each stage tool when they support tools', async () => {
+        const stats = await computeStats(shop);
+        const provider = createScriptedProvider(scriptedStages(stats));
+
+        await analyze(shop, { provider, logger: nullLogger });
+
+        expect(provider.requests.map((sent) => sent.tool?.name)).toEqual([
+            'submit_field_enrichment',
+            'submit_relationships',
+            'submit_domain',
+        ]);
+        expect(provider.requests[0]?.tool?.inputSchema).toMatchObject({
+            type: 'object',
+            required: ['tables'],
+        });
+    });
+
+    it('answer in text when they do not support tools', async () => {
+        const stats = await computeStats(shop);
+        const answers = scriptedStages(stats);
+        // Prose around the JSON, as models without tool calling tend to write.
+        const inProse =
+            (answer: ScriptedResponse): ScriptedResponse =>
+            (sent) =>
+                `Here is the result:\n${JSON.stringify(answer(sent))}\nLet me know if you need more.`;
+        const provider = {
+            ...createScriptedProvider({
+                fields: inProse(answers.fields),
+                relationships: inProse(answers.relationships),
+                domain: inProse(answers.domain),
+            }),
+            supportsTools: false,
+        };
+
+        const schema = await analyze(shop, { provider, logger: nullLogger });
+
+        expect(provider.requests.every((sent) => sent.tool === undefined)).toBe(true);
+        expect(schema.domain).toBe('testing');
+        expect(schema.tables.users?.fields.find((field) => field.path === 'email')).toMatchObject({
+            description: 'email of users',
+        });
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, computeStats, nullLogger } from '../src/index.js';
+
+const users = Array.from({ length: 40 }, (_, index) => ({ id: index + 1, name: `user${index}` }));
+const orders = Array.from({ length: 60 }, (_, index) => ({
+    orderId: index + 1,
+    userId: (index % 40) + 1,
+    total: index * 2.5,
+}));
+
+describe('relationship discovery', () => {
+    it('finds a foreign key whose values are contained in another table key', async () => {
+        const stats = await computeStats({ users, orders });
+
+        expect(stats.relationships).toEqual([
+            expect.objectContaining({
+                from: 'orders.userId',
+                to: 'users.id',
+                type: 'many-to-one',
+                confidence: 1,
+                containment: 1,
+            }),
+        ]);
+    });
+
+    it('ignores columns whose values are mostly missing from the target', async () => {
+        const strangers = orders.map((order) => ({ ...order, userId: order.userId + 1000 }));
+        const stats = await computeStats({ users, orders: strangers });
+
+        expect(stats.relationships ?? []).toEqual([]);
+    });
+
+    it('keeps discovered relationships when AI is skipped', async () => {
+        const schema = await analyze({ users, orders }, { skipAI: true, logger: nullLogger });
+
+        expect(schema.relationships?.map(({ from, to }) => `${from} -> ${to}`)).toEqual([
+            'orders.userId -> users.id',
+        ]);
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { APIError, analyze, computeStats, nullLogger } from '../src/index.js';
+import { createScriptedProvider, describeDomain, scriptedStages, shop } from './helpers.js';
+
+const retry = { repairAttempts: 1, maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+const stats = await computeStats(shop);
+
+describe('response repair', () => {
+    it('re-prompts with the validation errors and uses the corrected reply', async () => {
+        let calls = 0;
+        const provider = createScriptedProvider(
+            scriptedStages(stats, {
+                domain: () => (calls++ === 0 ? { domain: 'testing' } : describeDomain(stats)),
+            })
+        );
+
+        const schema = await analyze(shop, { provider, retry, logger: nullLogger });
+        const domainRequests = provider.requests.filter(({ stage }) => stage === 'domain');
+
+        expect(domainRequests).toHaveLength(2);
+        expect(domainRequests[1]?.messages.at(-1)?.content).toContain('entities');
+        expect(schema.domain).toBe('testing');
+        expect(schema.tables.users?.description).toBe('The users table');
+    });
+
+    it('accepts a domain response whose header never validates', async () => {
+        const provider = createScriptedProvider(
+            scriptedStages(stats, {
+                domain: () => ({ ...(describeDomain(stats) as object), domain: '' }),
+            })
+        );
+
+        const schema = await analyze(shop, { provider, retry, logger: nullLogger });
+
+        expect(schema.domain).toBe('unknown');
+        expect(schema.description).toBe('Scripted test data');
+        expect(schema.tables.orders?.description).toBe('The orders table');
+    });
+
+    it('keeps the first copy of an item a repair reply repeats', async () => {
+        const entity = {
+            name: 'User',
+            description: 'A shop customer',
+            idField: 'id',
+            nameField: 'name',
+            fields: ['id', 'email'],
+            table: 'users',
+        };
+        const order = { ...entity, name: 'Order', idField: 'id', nameField: null, table: 'orders' };
+        let calls = 0;
+        const provider = createScriptedProvider(
+            scriptedStages(stats, {
+                domain: () => ({
+                    ...(describeDomain(stats) as object),
+                    entities:
+                        calls++ === 0
+                            ? [entity, { ...order, idField: '' }]
+                            : [{ ...entity, description: 'Repeated' }, order],
+                }),
+            })
+        );
+
+        const schema = await analyze(shop, { provider, retry, logger: nullLogger });
+
+        expect(schema.tables.users?.entities).toEqual([
+            expect.objectContaining({ name: 'User', description: 'A shop customer' }),
+        ]);
+        expect(schema.tables.orders?.entities).toEqual([
+            expect.objectContaining({ name: 'Order' }),
+        ]);
+    });
+});
+
+describe('transient API errors', () => {
+    it('retries a retryable error', async () => {
+        let failures = 1;
+        const provider = createScriptedProvider(
+            scriptedStages(stats, {
+                relationships: () => {
+                    if (failures-- > 0) {
+                        throw new APIError('Overloaded', 529, true);
+                    }
+                    return { relationships: [] };
+                },
+            })
+        );
+
+        await analyze(shop, { provider, retry, logger: nullLogger });
+
+        expect(provider.requests.filter(({ stage }) => stage === 'relationships')).toHaveLength(2);
+    });
+
+    it('gives up on a non-retryable error', async () => {
+        const provider = createScriptedProvider(
+            scriptedStages(stats, {
+                relationships: () => {
+                    throw new APIError('Bad request', 400);
+                },
+            })
+        );
+
+        await expect(analyze(shop, { provider, retry, logger: nullLogger })).rejects.toThrow();
+        expect(provider.requests.filter(({ stage }) => stage === 'relationships')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,101 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import {
+    AIEnrichmentError,
+    analyze,
+    analyzeWithMetadata,
+    createReplayProvider,
+    FixtureNotFoundError,
+    nullLogger,
+} from '../src/index.js';
+
+const testsPath = dirname(fileURLToPath(import.meta.url));
+const directory = join(testsPath, 'fixtures');
+
+interface Shop {
+    readonly customers: Record<string, unknown>[];
+    readonly products: Record<string, unknown>[];
+    readonly orders: Record<string, unknown>[];
+}
+
+// The fixtures hold hand-written answers for this file, recorded through
+// createRecordingProvider. A prompt change renames them, so write them again
+// and delete the old ones; `npm run test:ai-record` would record a real model.
+const shop = JSON.parse(readFileSync(join(testsPath, 'data', 'shop.json'), 'utf-8')) as Shop;
+
+describe('replayed enrichment', () => {
+    it('reproduces the recorded schema without network access', async () => {
+        const provider = createReplayProvider({ directory, supportsTools: true });
+        const schema = await analyze(shop, { provider, logger: nullLogger });
+        const orders = schema.tables.orders;
+
+        expect(schema.domain).toBe('e-commerce');
+        expect(orders?.description).toBe('Customer orders with fulfilment status');
+        expect(orders?.dataGrain).toBe('one row per order_id');
+        expect(orders?.fields.find((field) => field.path === 'amount')).toMatchObject({
+            role: 'measure',
+            aggregation: 'sum',
+            unit: 'USD',
+        });
+        expect(orders?.capabilities).toMatchObject({
+            timeSeries: 'ordered_at',
+            measures: ['amount', 'quantity'],
+        });
+        expect(schema.tables.customers?.entities[0]).toMatchObject({
+            name: 'Customer',
+            idField: 'id',
+            nameField: 'name',
+        });
+        expect(
+            schema.tables.customers?.fields.find((field) => field.path === 'email')?.personalData
+        ).toBe('email');
+        expect(
+            schema.relationships?.map(({ from, to, type }) => `${from} -> ${to} ${type}`)
+        ).toEqual([
+            'orders.customer_id -> customers.id many-to-one',
+            'orders.product_sku -> products.sku many-to-one',
+        ]);
+    });
+
+    it('reports the recorded token usage', async () => {
+        const provider = createReplayProvider({ directory, supportsTools: true });
+        const { metadata } = await analyzeWithMetadata(shop, { provider, logger: nullLogger });
+
+        expect(metadata.models).toEqual(['hand-written']);
+        expect(metadata.stages.fields.requests).toBe(1);
+        expect(metadata.inputTokens).toBeGreaterThan(0);
+    });
+
+    it('fails on prompts that were never recorded', async () => {
+        const provider = createReplayProvider({ directory, supportsTools: true });
+        const changed = {
+            ...shop,
+            customers: shop.customers.map((row) => ({ ...row, vip: false })),
+        };
+
+        const error = await analyze(changed, { provider, logger: nullLogger }).catch(
+            (caught: unknown) => caught
+        );
+
+        expect(error).toBeInstanceOf(AIEnrichmentError);
+        expect((error as AIEnrichmentError).cause).toBeInstanceOf(FixtureNotFoundError);
+    });
+
+    it('serves the latest stage fixture for edited prompts with matchStageOnly', async () => {
+        const provider = createReplayProvider({
+            directory,
+            supportsTools: true,
+            matchStageOnly: true,
+        });
+        const changed = {
+            ...shop,
+            customers: shop.customers.map((row) => ({ ...row, vip: false })),
+        };
+
+        const schema = await analyze(changed, { provider, logger: nullLogger });
+
+        expect(schema.domain).toBe('e-commerce');
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, nullLogger, toCube, toDbtSemanticModels, toLookML } from '../src/index.js';
+import { shop } from './helpers.js';
+
+const options = { skipAI: true, logger: nullLogger };
+
+describe('semantic layer export', () => {
+    it('builds Cube cubes with joins, dimensions and measures', async () => {
+        const cube = toCube(await analyze(shop, options));
+
+        expect(cube).toContain('  - name: orders\n    sql_table: orders');
+        expect(cube).toContain(
+            'sql: "{CUBE}.user_id = {users}.id"\n        relationship: many_to_one'
+        );
+        expect(cube).toContain('- name: created_at\n        sql: created_at\n        type: time');
+        expect(cube).toContain('- name: total_sum\n        sql: total\n        type: sum');
+        expect(cube).toContain('primary_key: true');
+    });
+
+    it('builds LookML views and explores', async () => {
+        const lookml = toLookML(await analyze(shop, options));
+
+        expect(lookml).toContain('view: orders {\n  sql_table_name: orders ;;');
+        expect(lookml).toContain('dimension_group: created_at {\n    type: time');
+        expect(lookml).toContain(
+            `measure: total_sum {\n    type: sum\n    sql: \${TABLE}.total ;;`
+        );
+        expect(lookml).toContain(`sql_on: \${orders.user_id} = \${users.id} ;;`);
+    });
+
+    it('builds dbt semantic models with entities and metrics', async () => {
+        const dbt = toDbtSemanticModels(await analyze(shop, options));
+
+        expect(dbt).toContain("model: ref('orders')");
+        expect(dbt).toContain('agg_time_dimension: created_at');
+        expect(dbt).toContain('- name: users\n        type: foreign\n        expr: user_id');
+        expect(dbt).toContain('- name: orders_total_sum\n        agg: sum\n        expr: total');
+        expect(dbt).toContain('metrics:\n');
+    });
+});
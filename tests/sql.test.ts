@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, nullLogger, toSQL } from '../src/index.js';
+import { shop } from './helpers.js';
+
+const options = { skipAI: true, logger: nullLogger };
+
+describe('toSQL', () => {
+    it('creates tables with keys, comments and foreign keys for postgres', async () => {
+        const sql = toSQL(await analyze(shop, options), { dialect: 'postgres' });
+
+        expect(sql).toContain('CREATE TABLE "orders" (');
+        expect(sql).toContain('"total" DOUBLE PRECISION,');
+        expect(sql).toContain('"created_at" TIMESTAMPTZ,');
+        expect(sql).toContain('PRIMARY KEY ("id")');
+        expect(sql).toContain(`COMMENT ON COLUMN "orders"."total" IS 'total (number)';`);
+        expect(sql).toContain(
+            'ALTER TABLE "orders" ADD CONSTRAINT "fk_orders_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id");'
+        );
+    });
+
+    it('creates referenced tables before the constraints that point at them', async () => {
+        const sql = toSQL(await analyze(shop, options), { dialect: 'postgres' });
+
+        expect(sql.indexOf('CREATE TABLE "users"')).toBeLessThan(sql.indexOf('FOREIGN KEY'));
+        expect(sql.indexOf('CREATE TABLE "orders"')).toBeLessThan(sql.indexOf('FOREIGN KEY'));
+    });
+
+    it('flattens nested objects by default and keeps them as JSON on request', async () => {
+        const schema = await analyze(shop, options);
+
+        expect(toSQL(schema, { dialect: 'postgres' })).toContain('"address_city" TEXT,');
+        expect(toSQL(schema, { dialect: 'mysql', nested: 'json' })).toContain(
+            "`address` JSON COMMENT 'address (nested object)'"
+        );
+    });
+
+    it('requires only primary key columns, as rows may leave other keys out', async () => {
+        const rows = [{ id: 1, a: 1, o: { b: 2 } }, { id: 2 }, { id: 3 }];
+        const sql = toSQL(await analyze(rows, options), { dialect: 'postgres' });
+
+        expect(sql).toContain('"id" BIGINT NOT NULL,');
+        expect(sql).toContain('"a" BIGINT,');
+        expect(sql).toContain('"o_b" BIGINT,');
+        expect(sql).not.toMatch(/"(a|o_b)" \w+ NOT NULL/);
+    });
+
+    it('quotes identifiers per dialect', async () => {
+        const schema = await analyze({ "o'brien": [{ id: 1 }, { id: 2 }] }, options);
+
+        expect(toSQL(schema, { dialect: 'mysql' })).toContain("CREATE TABLE `o'brien`");
+        expect(toSQL(schema, { dialect: 'sqlite' })).toContain(`CREATE TABLE "o'brien"`);
+    });
+});
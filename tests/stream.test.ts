@@ -0,0 +1,112 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+    analyze,
+    analyzeStream,
+    computeStreamStats,
+    InvalidInputError,
+    nullLogger,
+    type ProgressEvent,
+} from '../src/index.js';
+
+const options = { skipAI: true, logger: nullLogger };
+
+const events = Array.from({ length: 500 }, (_, index) => ({
+    id: index + 1,
+    kind: index % 3 === 0 ? 'click' : 'view',
+    at: `2024-03-${String(1 + (index % 28)).padStart(2, '0')}T08:00:00Z`,
+}));
+
+const ndjson = `${events.map((event) => JSON.stringify(event)).join('\n')}\n`;
+
+async function* iterate<T>(rows: readonly T[]): AsyncGenerator<T> {
+    yield* rows;
+}
+
+let directory: string;
+
+beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'smart-schema-stream-'));
+});
+
+afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+});
+
+describe('analyzeStream', () => {
+    it('counts every row and profiles a reservoir sample', async () => {
+        const result = await analyzeStream(iterate(events), { ...options, maxRows: 50 });
+
+        expect(result.rowCount).toBe(500);
+        expect(result.sampledRowCount).toBe(50);
+        expect(result.metadata.inputTokens).toBe(0);
+        expect(result.schema.tables.root?.fields.map((field) => field.path)).toEqual([
+            'at',
+            'id',
+            'kind',
+        ]);
+    });
+
+    it('matches analyze when every row fits the sample', async () => {
+        const { schema, rowCount, sampledRowCount } = await analyzeStream(iterate(events), options);
+
+        expect(rowCount).toBe(500);
+        expect(sampledRowCount).toBe(500);
+        expect(schema).toEqual(await analyze(events, options));
+    });
+
+    it('reads NDJSON files and streams, split across chunks', async () => {
+        const path = join(directory, 'events.ndjson');
+        await writeFile(path, ndjson);
+        const chunks = ndjson.match(/[\s\S]{1,97}/g) ?? [];
+
+        const fromFile = await analyzeStream(path, options);
+        const fromStream = await analyzeStream(Readable.from(chunks), options);
+
+        expect(fromFile.rowCount).toBe(500);
+        expect(fromStream.rowCount).toBe(500);
+        expect(fromStream.schema).toEqual(fromFile.schema);
+    });
+
+    it('reports the exact row count in stats-completed', async () => {
+        const progress: ProgressEvent[] = [];
+
+        await computeStreamStats(iterate(events), {
+            maxRows: 20,
+            onProgress: (event) => progress.push(event),
+        });
+
+        expect(progress).toEqual([
+            { kind: 'stats-started', table: 'root' },
+            expect.objectContaining({
+                kind: 'stats-completed',
+                rowCount: 500,
+                sampledRowCount: 20,
+            }),
+        ]);
+    });
+
+    it('skips blank lines and names the line that is not an object', async () => {
+        const blank = await analyzeStream(Readable.from(['{"id":1}\n\n  \n{"id":2}\n']), options);
+        const error = await analyzeStream(Readable.from(['{"id":1}\n[1, 2]\n']), options).catch(
+            (caught: unknown) => caught
+        );
+
+        expect(blank.rowCount).toBe(2);
+        expect(error).toBeInstanceOf(InvalidInputError);
+        expect(error).toMatchObject({
+            reason: 'malformed',
+            message: expect.stringContaining('line 2'),
+        });
+    });
+
+    it('rejects an empty source', async () => {
+        await expect(analyzeStream(iterate([]), options)).rejects.toMatchObject({
+            name: 'InvalidInputError',
+            reason: 'empty',
+        });
+    });
+});
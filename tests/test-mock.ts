@@ -2,23 +2,49 @@ import 'dotenv/config';
 import { readFileSync, writeFileSync } from 'node:fs';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { AIEnrichmentError, AIValidationError, analyze } from '../src/index.js';
+import {
+    AIEnrichmentError,
+    AIValidationError,
+    analyze,
+    type CompletionProvider,
+    createAnthropicProvider,
+    createRecordingProvider,
+    createReplayProvider,
+} from '../src/index.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesPath = join(__dirname, 'fixtures');
+
+// AI_FIXTURES=record saves every stage to tests/fixtures; AI_FIXTURES=replay
+// serves them back without network access or an API key. Both analyze the
+// committed tests/data/shop.json. The committed fixtures are hand-written and
+// pinned by tests/replay.test.ts, so do not commit a real recording over them.
+function createProvider(): CompletionProvider {
+    if (process.env.AI_FIXTURES === 'replay') {
+        return createReplayProvider({ directory: fixturesPath, supportsTools: true });
+    }
 
-async function test(): Promise<void> {
     if (!process.env.ANTHROPIC_API_KEY) {
         console.error('ANTHROPIC_API_KEY not set');
         process.exit(1);
     }
 
-    const mockPath = join(__dirname, '..', 'mock', 'mock.json');
-    const data: unknown = JSON.parse(readFileSync(mockPath, 'utf-8'));
+    const anthropic = createAnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY });
+
+    return process.env.AI_FIXTURES === 'record'
+        ? createRecordingProvider(anthropic, { directory: fixturesPath })
+        : anthropic;
+}
+
+async function test(): Promise<void> {
+    const provider = createProvider();
+    const dataPath = process.env.AI_FIXTURES
+        ? join(__dirname, 'data', 'shop.json')
+        : join(__dirname, '..', 'mock', 'mock.json');
+    const data: unknown = JSON.parse(readFileSync(dataPath, 'utf-8'));
 
     try {
-        const schema = await analyze(data, {
-            apiKey: process.env.ANTHROPIC_API_KEY,
-        });
+        const schema = await analyze(data, { provider });
 
         const outputPath = join(__dirname, '..', 'mock', 'schema-output.json');
         writeFileSync(outputPath, JSON.stringify(schema, null, 2));
@@ -0,0 +1,86 @@
+import ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import { analyze, nullLogger, toTypeScript } from '../src/index.js';
+
+const options = { skipAI: true, logger: nullLogger };
+
+const rows = Array.from({ length: 12 }, (_, index) => ({
+    id: index + 1,
+    status: index % 2 === 0 ? 'paid' : 'open',
+    ...(index % 3 !== 0 && { nick: `nick${index}` }),
+    coupon: index % 4 === 0 ? null : 'SPRING',
+    address: { city: 'Lviv', 'zip-code': '79000' },
+    tags: ['a'],
+}));
+
+// Just the globals the compiler requires; the standard library is slow to load.
+const PRELUDE = `
+interface Array<T> { length: number; [index: number]: T }
+interface Boolean {}
+interface CallableFunction {}
+interface Function {}
+interface IArguments {}
+interface NewableFunction {}
+interface Number {}
+interface Object {}
+interface RegExp {}
+interface String {}
+type Record<K extends keyof any, T> = { [P in K]: T };
+`;
+
+/** Type-checks `source` in memory and returns the diagnostic messages. */
+function typeCheck(source: string): string[] {
+    const files = new Map([
+        ['prelude.d.ts', PRELUDE],
+        ['check.ts', source],
+    ]);
+    const compilerOptions: ts.CompilerOptions = {
+        strict: true,
+        noEmit: true,
+        noLib: true,
+        types: [],
+    };
+    const host = ts.createCompilerHost(compilerOptions);
+
+    host.getSourceFile = (name, languageVersion) => {
+        const text = files.get(name);
+        return text === undefined ? undefined : ts.createSourceFile(name, text, languageVersion);
+    };
+
+    return ts
+        .getPreEmitDiagnostics(ts.createProgram([...files.keys()], compilerOptions, host))
+        .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+describe('toTypeScript', () => {
+    it('renders optional properties, literal unions, nullability and nesting', async () => {
+        const source = toTypeScript(await analyze(rows, options));
+
+        expect(source).toContain('export interface Root {');
+        expect(source).toContain("status?: 'open' | 'paid';");
+        expect(source).toContain("coupon?: 'SPRING' | null;");
+        expect(source).toContain("'zip-code'?: '79000';");
+        expect(source).toContain('nick?: string;');
+        expect(source).toContain('tags?: Array<string>;');
+    });
+
+    it('produces declarations the sampled rows satisfy', async () => {
+        const source = toTypeScript(await analyze(rows, options));
+        const check = `${source}\nexport const rows: Root[] = ${JSON.stringify(rows)};\n`;
+
+        expect(typeCheck(check)).toEqual([]);
+    });
+
+    it('rejects rows of the wrong type', async () => {
+        const source = toTypeScript(await analyze(rows, options));
+        const check = `${source}\nexport const rows: Root[] = [{ id: 'one' }];\n`;
+
+        expect(typeCheck(check)).toHaveLength(1);
+    });
+
+    it('names interfaces after the table', async () => {
+        const source = toTypeScript(await analyze({ line_items: [{ sku: 'a' }] }, options));
+
+        expect(source).toContain('export interface LineItems {');
+    });
+});
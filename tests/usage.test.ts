@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+    analyzeWithMetadata,
+    BudgetExceededError,
+    computeStats,
+    nullLogger,
+} from '../src/index.js';
+import { createScriptedProvider, SCRIPTED_USAGE, scriptedStages, shop } from './helpers.js';
+
+const stats = await computeStats(shop);
+
+// Dollars per million tokens, so one scripted request costs $0.00014.
+const prices = { scripted: { input: 1, output: 2 } };
+
+describe('analyzeWithMetadata', () => {
+    it('reports tokens, model and cost per stage', async () => {
+        const provider = createScriptedProvider(scriptedStages(stats));
+
+        const { schema, metadata } = await analyzeWithMetadata(shop, {
+            provider,
+            prices,
+            logger: nullLogger,
+        });
+
+        expect(schema.domain).toBe('testing');
+        expect(metadata.models).toEqual(['scripted']);
+        expect(metadata.stages.fields).toMatchObject({
+            requests: 1,
+            cachedResponses: 0,
+            inputTokens: SCRIPTED_USAGE.inputTokens,
+            outputTokens: SCRIPTED_USAGE.outputTokens,
+        });
+        expect(metadata.stages.fields.estimatedCost).toBeCloseTo(0.00014, 10);
+        expect(metadata.inputTokens).toBe(3 * SCRIPTED_USAGE.inputTokens);
+        expect(metadata.outputTokens).toBe(3 * SCRIPTED_USAGE.outputTokens);
+        expect(metadata.estimatedCost).toBeCloseTo(0.00042, 10);
+        expect(metadata.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('leaves the cost out for a model without a price', async () => {
+        const provider = createScriptedProvider(scriptedStages(stats));
+
+        const { metadata } = await analyzeWithMetadata(shop, { provider, logger: nullLogger });
+
+        expect(metadata.inputTokens).toBe(3 * SCRIPTED_USAGE.inputTokens);
+        expect(metadata).not.toHaveProperty('estimatedCost');
+        expect(metadata.stages.domain).not.toHaveProperty('estimatedCost');
+    });
+
+    it('prices Opus 4.5 apart from earlier Opus 4 models', async () => {
+        const provider = createScriptedProvider(scriptedStages(stats));
+        const complete = provider.complete.bind(provider);
+
+        const { metadata } = await analyzeWithMetadata(shop, {
+            provider: {
+                ...provider,
+                complete: async (request) => ({
+                    ...(await complete(request)),
+                    model: 'claude-opus-4-5-20251101',
+                }),
+            },
+            logger: nullLogger,
+        });
+
+        // $5 and $25 per million tokens for 100 input and 20 output tokens each.
+        expect(metadata.stages.fields.estimatedCost).toBeCloseTo(0.001, 10);
+        expect(metadata.estimatedCost).toBeCloseTo(0.003, 10);
+    });
+
+    it('reports no usage when AI is skipped', async () => {
+        const { metadata } = await analyzeWithMetadata(shop, {
+            skipAI: true,
+            logger: nullLogger,
+        });
+
+        expect(metadata).toMatchObject({ models: [], inputTokens: 0, outputTokens: 0 });
+    });
+});
+
+describe('budget', () => {
+    it('refuses to send a request that would exceed maxTokens', async () => {
+        const provider = createScriptedProvider(scriptedStages(stats));
+
+        const error = await analyzeWithMetadata(shop, {
+            provider,
+            budget: { maxTokens: 10 },
+            logger: nullLogger,
+        }).catch((caught: unknown) => caught);
+
+        expect(error).toBeInstanceOf(BudgetExceededError);
+        expect(error).toMatchObject({ limit: 'maxTokens', usage: { inputTokens: 0 } });
+        expect(provider.requests).toEqual([]);
+    });
+
+    it('refuses to send a request whose estimated prompt cost exceeds maxCost', async () => {
+        const provider = createScriptedProvider(scriptedStages(stats));
+
+        const error = await analyzeWithMetadata(shop, {
+            provider,
+            prices,
+            budget: { maxCost: 0.0001 },
+            logger: nullLogger,
+        }).catch((caught: unknown) => caught);
+
+        expect(error).toBeInstanceOf(BudgetExceededError);
+        expect(error).toMatchObject({ limit: 'maxCost' });
+        expect(provider.requests).toEqual([]);
+    });
+});
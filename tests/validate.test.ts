@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, nullLogger, validate } from '../src/index.js';
+
+const options = { skipAI: true, logger: nullLogger };
+
+const orders = Array.from({ length: 12 }, (_, index) => ({
+    id: index + 1,
+    status: index % 2 === 0 ? 'paid' : 'refunded',
+    total: 9.5 + index,
+    coupon: index % 3 === 0 ? null : 'SPRING',
+    ...(index % 4 === 0 && { note: 'gift' }),
+}));
+
+describe('validate', () => {
+    it('accepts the data a schema was generated from', async () => {
+        const schema = await analyze(orders, options);
+        const report = validate(orders, schema);
+
+        expect(report.violations).toEqual([]);
+        expect(report.valid).toBe(true);
+        expect(report.tables.root).toMatchObject({ rows: 12, invalidRows: 0 });
+    });
+
+    it('reports type, null, enum and unknown-field violations with row and path', async () => {
+        const schema = await analyze(orders, options);
+        const report = validate(
+            [
+                { id: 'x', status: 'paid', total: 1 },
+                { id: null, status: 'lost', total: 2, extra: true },
+            ],
+            schema
+        );
+
+        expect(report.valid).toBe(false);
+        expect(report.violations.map(({ kind, row, path }) => ({ kind, row, path }))).toEqual(
+            expect.arrayContaining([
+                { kind: 'type-mismatch', row: 0, path: 'id' },
+                { kind: 'null-value', row: 1, path: 'id' },
+                { kind: 'enum-mismatch', row: 1, path: 'status' },
+                { kind: 'unknown-field', row: 1, path: 'extra' },
+            ])
+        );
+        expect(report.tables.root?.invalidRows).toBe(2);
+    });
+
+    it('allows unknown fields when asked', async () => {
+        const schema = await analyze(orders, options);
+        const report = validate([{ ...orders[1], extra: true }], schema, {
+            allowUnknownFields: true,
+        });
+
+        expect(report.valid).toBe(true);
+    });
+
+    it('stops collecting at maxViolations', async () => {
+        const schema = await analyze(orders, options);
+        const rows = Array.from({ length: 5 }, () => ({ id: 'bad', status: 'paid', total: 1 }));
+        const report = validate(rows, schema, { maxViolations: 2 });
+
+        expect(report.violations).toHaveLength(2);
+        expect(report.truncated).toBe(true);
+    });
+
+    it('accepts only the observed types of a mixed field', async () => {
+        const rows = [{ code: 1 }, { code: 'A1' }, { code: 2 }, { code: 'B2' }];
+        const schema = await analyze(rows, { ...options, mixedTypeThreshold: 0 });
+        const report = validate([{ code: 3 }, { code: 'C3' }, { code: true }], schema);
+
+        expect(report.violations).toEqual([
+            expect.objectContaining({ kind: 'type-mismatch', row: 2, path: 'code' }),
+        ]);
+    });
+
+    it('reports tables the schema does not know', async () => {
+        const schema = await analyze({ orders }, options);
+        const report = validate({ orders, refunds: [{ id: 1 }] }, schema);
+
+        expect(report.violations).toContainEqual(
+            expect.objectContaining({ kind: 'unknown-table', table: 'refunds' })
+        );
+    });
+
+    it('reports unknown tables named like Object.prototype members', async () => {
+        const schema = await analyze({ orders }, options);
+        const report = validate(
+            { constructor: [{ id: 1 }], toString: [{ id: 2 }], orders },
+            schema
+        );
+
+        expect(report.violations.map(({ kind, table }) => `${kind} ${table}`)).toEqual([
+            'unknown-table constructor',
+            'unknown-table toString',
+        ]);
+        expect(report.tables.orders?.invalidRows).toBe(0);
+    });
+});
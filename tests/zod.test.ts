@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { type ZodType, z } from 'zod';
+import { analyze, nullLogger, toZod, toZodSource } from '../src/index.js';
+
+const options = { skipAI: true, logger: nullLogger };
+
+const rows = Array.from({ length: 12 }, (_, index) => ({
+    id: `6f1c2a4e-8d3b-4c5a-9e7f-0a1b2c3d4e${String(index).padStart(2, '0')}`,
+    email: `user${index}@example.com`,
+    status: index % 2 === 0 ? 'paid' : 'open',
+    total: 10 + index,
+    ...(index % 3 !== 0 && { nick: `nick${index}` }),
+    coupon: index % 4 === 0 ? null : 'SPRING',
+    address: { city: 'Lviv' },
+    items: [{ sku: `sku-${index}`, quantity: 1 }],
+}));
+
+/** Evaluates `toZodSource` output and returns the schema named `schemaName`. */
+function evaluateSource(source: string, schemaName: string): ZodType {
+    const body = source
+        .replace("import { z } from 'zod';", '')
+        .replace(/^export type .*$/gm, '')
+        .replace(/^export const /gm, 'const ');
+
+    return new Function('z', `${body}\nreturn ${schemaName};`)(z) as ZodType;
+}
+
+describe('toZod', () => {
+    it('accepts every row the schema was generated from', async () => {
+        const { root } = toZod(await analyze(rows, options));
+
+        for (const row of rows) {
+            expect(root?.safeParse(row).success).toBe(true);
+        }
+    });
+
+    it('rejects wrong types, unknown enum values and bad formats', async () => {
+        const { root } = toZod(await analyze(rows, options));
+        const [row] = rows;
+
+        expect(root?.safeParse({ ...row, total: 'ten' }).success).toBe(false);
+        expect(root?.safeParse({ ...row, status: 'lost' }).success).toBe(false);
+        expect(root?.safeParse({ ...row, email: 'not an email' }).success).toBe(false);
+        expect(root?.safeParse({ ...row, nick: null }).success).toBe(false);
+    });
+
+    it('attaches descriptions', async () => {
+        const { root } = toZod(await analyze(rows, options));
+
+        expect(root?.description).toBe('Table containing 11 fields');
+    });
+});
+
+describe('toZodSource', () => {
+    it('prints optional keys with nullability and descriptions', async () => {
+        const source = toZodSource(await analyze(rows, options));
+
+        expect(source).toContain("import { z } from 'zod';");
+        expect(source).toContain("status: z.enum(['open', 'paid']).optional()");
+        expect(source).toContain("coupon: z.enum(['SPRING']).nullable().optional()");
+        expect(source).toContain('export type Root = z.infer<typeof rootSchema>;');
+    });
+
+    it('prints schemas that behave like toZod', async () => {
+        const schema = await analyze(rows, options);
+        const printed = evaluateSource(toZodSource(schema), 'rootSchema');
+
+        for (const row of rows) {
+            expect(printed.safeParse(row).success).toBe(true);
+        }
+        expect(printed.safeParse({ ...rows[0], total: 'ten' }).success).toBe(false);
+    });
+});